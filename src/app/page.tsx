@@ -7,9 +7,12 @@ import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts';
 import { useUrlState } from '@/hooks/useUrlState';
 import ControlPanel from '@/components/controls/ControlPanel';
 import MetricsPanel from '@/components/metrics/MetricsPanel';
+import ExperimentsPanel from '@/components/experiments/ExperimentsPanel';
 import RaceTimer from '@/components/canvas/RaceTimer';
 import SlotTimeline from '@/components/canvas/SlotTimeline';
+import TraceScrubber from '@/components/canvas/TraceScrubber';
 import TutorialOverlay from '@/components/TutorialOverlay';
+import ScenarioBundleButtons from '@/components/ScenarioBundleButtons';
 import { useDashboardStore } from '@/store';
 import { ACCENT_TEAL, GOSSIP_COLOR, BG_PRIMARY, BG_PANEL, TEXT_PRIMARY, TEXT_SECONDARY } from '@/constants/colors';
 
@@ -24,13 +27,15 @@ const GlobeView = dynamic(
 );
 
 type ViewMode = '2d' | '3d';
+type SidePanel = 'metrics' | 'experiments';
 
 export default function Home() {
-  const { stepForward, cancelAutoRestart } = useSimulationLoop();
-  useKeyboardShortcuts(stepForward);
+  const { stepForward, stepBackward, seekTo, cancelAutoRestart } = useSimulationLoop();
+  useKeyboardShortcuts(stepForward, stepBackward);
   useUrlState();
 
   const [viewMode, setViewMode] = useState<ViewMode>('2d');
+  const [sidePanel, setSidePanel] = useState<SidePanel>('metrics');
   const [showTutorial, setShowTutorial] = useState(false);
 
   // Show tutorial on first visit
@@ -128,6 +133,7 @@ export default function Home() {
           >
             ? Guide
           </button>
+          <ScenarioBundleButtons onSeek={seekTo} />
           <button
             onClick={() => {
               navigator.clipboard.writeText(window.location.href);
@@ -217,6 +223,9 @@ export default function Home() {
             </div>
           )}
 
+          {/* Run timeline */}
+          <TraceScrubber onSeek={seekTo} onStepForward={stepForward} onStepBackward={stepBackward} />
+
           {/* Status bar overlay */}
           <div
             className="absolute bottom-0 left-0 right-0 flex items-center justify-between px-4 py-2 border-t border-[#1e2840]"
@@ -242,9 +251,30 @@ export default function Home() {
           </div>
         </main>
 
-        {/* Right sidebar — Metrics */}
-        <aside className="w-72 flex-shrink-0 border-l border-[#1e2840] overflow-hidden" role="complementary" aria-label="Simulation metrics">
-          <MetricsPanel />
+        {/* Right sidebar — Metrics / Experiments */}
+        <aside className="w-72 flex-shrink-0 border-l border-[#1e2840] overflow-hidden flex flex-col" role="complementary" aria-label="Simulation metrics">
+          <div className="flex border-b border-[#1e2840]" style={{ backgroundColor: BG_PANEL }}>
+            {([
+              { key: 'metrics', label: 'Metrics' },
+              { key: 'experiments', label: 'Experiments' },
+            ] as const).map(({ key, label }) => (
+              <button
+                key={key}
+                onClick={() => setSidePanel(key)}
+                className="flex-1 text-[10px] px-2.5 py-1.5 font-medium transition-colors"
+                style={{
+                  color: sidePanel === key ? ACCENT_TEAL : TEXT_SECONDARY,
+                  borderBottom: `2px solid ${sidePanel === key ? ACCENT_TEAL : 'transparent'}`,
+                }}
+                aria-label={`Show ${label.toLowerCase()} panel`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <div className="flex-1 overflow-hidden">
+            {sidePanel === 'metrics' ? <MetricsPanel /> : <ExperimentsPanel />}
+          </div>
         </aside>
       </div>
 
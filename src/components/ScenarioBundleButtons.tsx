@@ -0,0 +1,106 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { useDashboardStore, dashboardEngine } from '@/store';
+import { createBundle, parseBundle } from '@/store/bundle';
+import { downloadText } from '@/lib/download';
+import { BG_PANEL, FAILURE_RED, TEXT_SECONDARY } from '@/constants/colors';
+
+interface ScenarioBundleButtonsProps {
+  /** Replays the restored run up to a simulated time */
+  onSeek: (simTime: number) => void;
+}
+
+const buttonStyle = {
+  backgroundColor: '#1e2840',
+  color: TEXT_SECONDARY,
+  border: '1px solid #2a3450',
+};
+
+/**
+ * Export the whole dashboard as a JSON scenario bundle, or restore one, so
+ * an exact run can be attached to a bug report and reopened later.
+ */
+export default function ScenarioBundleButtons({ onSeek }: ScenarioBundleButtonsProps) {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [errors, setErrors] = useState<string[] | null>(null);
+
+  const handleExport = () => {
+    const state = useDashboardStore.getState();
+    downloadText(`mump2p-scenario-${state.seed}.json`, JSON.stringify(createBundle(state), null, 2), 'application/json');
+  };
+
+  const handleImport = async (file: File) => {
+    const result = parseBundle(await file.text());
+    if (!result.ok) {
+      setErrors(result.errors);
+      return;
+    }
+    setErrors(null);
+    const { state } = result.bundle;
+    const store = useDashboardStore.getState();
+    dashboardEngine.clear();
+    store.restoreBundle(state);
+    if (!state.publisherNodeId) return;
+    try {
+      onSeek(state.simTime);
+      // The replay recomputes metrics; keep the recorded ones verbatim
+      if (state.engineMetrics) store.pushEngineMetrics(state.engineMetrics);
+    } catch (err) {
+      // Keep the restored network and controls, but not a run that can't replay
+      dashboardEngine.clear();
+      store.resetSimulation();
+      setErrors([`Could not replay the bundled run: ${err instanceof Error ? err.message : String(err)}`]);
+    }
+  };
+
+  return (
+    <div className="relative flex items-center gap-1.5">
+      <button
+        onClick={handleExport}
+        aria-label="Export scenario bundle"
+        className="text-[10px] px-2.5 py-1 rounded-full font-medium transition-colors hover:brightness-110"
+        style={buttonStyle}
+      >
+        Export
+      </button>
+      <button
+        onClick={() => fileRef.current?.click()}
+        aria-label="Import scenario bundle"
+        className="text-[10px] px-2.5 py-1 rounded-full font-medium transition-colors hover:brightness-110"
+        style={buttonStyle}
+      >
+        Import
+      </button>
+      <input
+        ref={fileRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) handleImport(file);
+          e.target.value = '';
+        }}
+      />
+      {errors && (
+        <div
+          className="absolute z-40 right-0 top-8 w-64 p-2 rounded-lg shadow-lg border border-[#2a3450] text-[10px]"
+          style={{ backgroundColor: BG_PANEL, color: FAILURE_RED }}
+          role="alert"
+        >
+          <div className="flex justify-between gap-2">
+            <ul className="space-y-0.5">
+              {errors.map((error, i) => (
+                <li key={i}>{error}</li>
+              ))}
+            </ul>
+            <button onClick={() => setErrors(null)} style={{ color: TEXT_SECONDARY }} aria-label="Dismiss import errors">
+              ✕
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,15 @@ import {
   getStraightPath,
   type EdgeProps,
 } from '@xyflow/react';
+import { FAILURE_RED } from '@/constants/colors';
+
+export interface AnimatedEdgeData {
+  /** Loss probability (0-1) on this link */
+  lossRate: number;
+  /** Whether the loss was set per link rather than by the global slider */
+  customLoss: boolean;
+  [key: string]: unknown;
+}
 
 function AnimatedEdge({
   id,
@@ -14,24 +23,49 @@ function AnimatedEdge({
   targetX,
   targetY,
   style,
+  data,
 }: EdgeProps) {
-  const [edgePath] = getStraightPath({
+  const [edgePath, labelX, labelY] = getStraightPath({
     sourceX,
     sourceY,
     targetX,
     targetY,
   });
 
+  const { lossRate = 0, customLoss = false } = (data ?? {}) as Partial<AnimatedEdgeData>;
+
+  // Per-link lossy edges are tinted red (stronger with higher loss) and dashed
+  const stroke = customLoss && lossRate > 0
+    ? `${FAILURE_RED}${Math.round(64 + Math.min(lossRate, 1) * 191).toString(16).padStart(2, '0')}`
+    : '#4A556840';
+
   return (
-    <BaseEdge
-      id={id}
-      path={edgePath}
-      style={{
-        stroke: '#4A556840',
-        strokeWidth: 1.5,
-        ...style,
-      }}
-    />
+    <>
+      <BaseEdge
+        id={id}
+        path={edgePath}
+        style={{
+          stroke,
+          strokeWidth: customLoss ? 2 : 1.5,
+          strokeDasharray: customLoss ? '6 3' : undefined,
+          cursor: 'pointer',
+          ...style,
+        }}
+      />
+      {customLoss && (
+        <text
+          x={labelX}
+          y={labelY - 6}
+          textAnchor="middle"
+          fontSize={10}
+          fontFamily="monospace"
+          fill={lossRate > 0 ? FAILURE_RED : '#9AA0A6'}
+          style={{ pointerEvents: 'none' }}
+        >
+          {Math.round(lossRate * 100)}%
+        </text>
+      )}
+    </>
   );
 }
 
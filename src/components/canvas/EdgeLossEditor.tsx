@@ -0,0 +1,101 @@
+'use client';
+
+import { useDashboardStore } from '@/store';
+import type { LossModelType } from '@/simulation/types';
+import { ACCENT_TEAL, BG_PANEL, TEXT_PRIMARY, TEXT_SECONDARY } from '@/constants/colors';
+
+interface EdgeLossEditorProps {
+  source: string;
+  target: string;
+  /** Position relative to the canvas container */
+  x: number;
+  y: number;
+  onClose: () => void;
+}
+
+/**
+ * Popover for setting packet loss and loss model on a single link (both
+ * directions), e.g. to model one flaky transatlantic hop instead of uniform loss.
+ */
+export default function EdgeLossEditor({ source, target, x, y, onClose }: EdgeLossEditorProps) {
+  const edge = useDashboardStore((s) =>
+    s.edges.find((e) => e.source === source && e.target === target),
+  );
+  const nodes = useDashboardStore((s) => s.nodes);
+  const setEdgeLoss = useDashboardStore((s) => s.setEdgeLoss);
+  const setEdgeLossModel = useDashboardStore((s) => s.setEdgeLossModel);
+
+  if (!edge) return null;
+
+  const lossPct = Math.round(edge.packetLossRate * 100);
+  const modelType: LossModelType = edge.lossModel?.type ?? 'bernoulli';
+  const labelOf = (id: string) => nodes.find((n) => n.id === id)?.label ?? id;
+
+  return (
+    <div
+      className="absolute z-30 w-48 p-3 rounded-lg shadow-lg border border-[#2a3450]"
+      style={{ left: x, top: y, backgroundColor: BG_PANEL, color: TEXT_PRIMARY }}
+      role="dialog"
+      aria-label="Edit link packet loss"
+    >
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs font-medium">
+          {labelOf(source)} ↔ {labelOf(target)}
+        </span>
+        <button
+          onClick={onClose}
+          className="text-[10px] px-1"
+          style={{ color: TEXT_SECONDARY }}
+          aria-label="Close link editor"
+        >
+          ✕
+        </button>
+      </div>
+      <div className="flex items-center justify-between mb-1 text-[10px]">
+        <span style={{ color: TEXT_SECONDARY }}>
+          Link loss {edge.customLoss ? '(custom)' : '(global)'}
+        </span>
+        <span className="font-mono" style={{ color: ACCENT_TEAL }}>{lossPct}%</span>
+      </div>
+      <input
+        type="range"
+        min={0}
+        max={100}
+        step={1}
+        value={lossPct}
+        onChange={(e) => setEdgeLoss(source, target, Number(e.target.value))}
+        className="w-full accent-teal-400"
+      />
+      <div className="flex gap-1 mt-2">
+        {([
+          { key: 'bernoulli', label: 'Bernoulli' },
+          { key: 'gilbert-elliott', label: 'Bursty' },
+        ] as { key: LossModelType; label: string }[]).map(({ key, label }) => (
+          <button
+            key={key}
+            onClick={() => setEdgeLossModel(source, target, key)}
+            className="flex-1 px-2 py-1 rounded text-[10px] font-medium transition-colors"
+            style={{
+              backgroundColor: modelType === key ? ACCENT_TEAL : '#1e2840',
+              color: modelType === key ? '#000' : TEXT_SECONDARY,
+            }}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <p className="text-[10px] mt-1" style={{ color: TEXT_SECONDARY }}>
+        Latency {edge.latencyMs}ms
+      </p>
+      {edge.customLoss && (
+        <button
+          onClick={() => setEdgeLoss(source, target, null)}
+          className="mt-2 w-full px-2 py-1 rounded text-[10px] font-medium transition-colors hover:brightness-110"
+          style={{ backgroundColor: '#1e2840', color: TEXT_SECONDARY }}
+        >
+          Reset to global
+        </button>
+      )}
+    </div>
+  );
+}
@@ -2,14 +2,7 @@
 
 import { memo } from 'react';
 import { Handle, Position, type NodeProps } from '@xyflow/react';
-import { useDashboardStore } from '@/store';
-import {
-  getRLNCRank,
-  isRLNCReconstructed,
-  hasGossipMessage,
-  getGossipLastDuplicateTime,
-  getRLNCLastRedundantTime,
-} from '@/simulation/engine';
+import { useDashboardStore, dashboardEngine } from '@/store';
 import {
   NODE_IDLE,
   NODE_PUBLISHING,
@@ -33,6 +26,7 @@ function FlexNodeComponent({ data }: NodeProps) {
   const isRLNC = protocol === 'rlnc';
 
   const publisherNodeId = useDashboardStore((s) => s.publisherNodeId);
+  const publisherNodeIds = useDashboardStore((s) => s.publisherNodeIds);
   const k = useDashboardStore((s) => s.k);
   const running = useDashboardStore((s) => s.running);
   const comparisonMode = useDashboardStore((s) => s.comparisonMode);
@@ -41,19 +35,19 @@ function FlexNodeComponent({ data }: NodeProps) {
 
   // Read engine state directly (re-renders driven by simTime changes)
   const simTime = useDashboardStore((s) => s.simTime);
-  const isPublisher = publisherNodeId === nid;
+  const isPublisher = publisherNodeIds.includes(nid);
   const hasStarted = publisherNodeId !== null;
 
   // Query engine state
-  const rlncRank = hasStarted && !isPublisher ? getRLNCRank(nid) : (isPublisher ? k : 0);
-  const rlncDone = hasStarted && !isPublisher ? isRLNCReconstructed(nid) : isPublisher;
-  const gossipDone = hasStarted && !isPublisher ? hasGossipMessage(nid) : isPublisher;
+  const rlncRank = hasStarted && !isPublisher ? dashboardEngine.getRLNCRank(nid) : (isPublisher ? k : 0);
+  const rlncDone = hasStarted && !isPublisher ? dashboardEngine.isRLNCReconstructed(nid) : isPublisher;
+  const gossipDone = hasStarted && !isPublisher ? dashboardEngine.hasGossipMessage(nid) : isPublisher;
 
   // Duplicate / redundancy flash detection
   const FLASH_DURATION_MS = 400; // sim ms the flash stays visible
-  const gossipLastDup = !isRLNC && !isPublisher && hasStarted ? getGossipLastDuplicateTime(nid) : null;
+  const gossipLastDup = !isRLNC && !isPublisher && hasStarted ? dashboardEngine.getGossipLastDuplicateTime(nid) : null;
   const showDupFlash = gossipLastDup !== null && (simTime - gossipLastDup) < FLASH_DURATION_MS;
-  const rlncLastRedundant = isRLNC && !isPublisher && hasStarted && rlncDone ? getRLNCLastRedundantTime(nid) : null;
+  const rlncLastRedundant = isRLNC && !isPublisher && hasStarted && rlncDone ? dashboardEngine.getRLNCLastRedundantTime(nid) : null;
   const showRedundantFlash = rlncLastRedundant !== null && (simTime - rlncLastRedundant) < FLASH_DURATION_MS;
 
   // Protocol-specific border color
@@ -4,9 +4,9 @@ import { useMemo } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { OrbitControls, Line } from '@react-three/drei';
 import * as THREE from 'three';
-import { useDashboardStore } from '@/store';
+import { useDashboardStore, dashboardEngine } from '@/store';
+import type { FlexNode } from '@/simulation/types';
 import { shardColor, GOSSIP_COLOR, ACCENT_TEAL, RECONSTRUCTED_GREEN, NODE_PUBLISHING } from '@/constants/colors';
-import { isRLNCReconstructed, hasGossipMessage } from '@/simulation/engine';
 
 const GLOBE_RADIUS = 2;
 
@@ -36,6 +36,11 @@ function positionToSpherical(
   return { lat, lon };
 }
 
+/** Geo-placed nodes sit at their real location; others use the flat layout's projection */
+function nodeLatLon(node: FlexNode, allPositions: { x: number; y: number }[]): { lat: number; lon: number } {
+  return node.geo ?? positionToSpherical(node.position, allPositions);
+}
+
 function latLonToVec3(lat: number, lon: number, radius: number): THREE.Vector3 {
   const phi = (90 - lat) * (Math.PI / 180);
   const theta = (lon + 180) * (Math.PI / 180);
@@ -69,12 +74,12 @@ function Globe() {
 
 function NodePoints() {
   const nodes = useDashboardStore((s) => s.nodes);
-  const publisherNodeId = useDashboardStore((s) => s.publisherNodeId);
+  const publisherNodeIds = useDashboardStore((s) => s.publisherNodeIds);
   useDashboardStore((s) => s.simTime); // trigger re-renders
 
   const positions = useMemo(() => nodes.map((n) => n.position), [nodes]);
   const spherical = useMemo(
-    () => nodes.map((n) => positionToSpherical(n.position, positions)),
+    () => nodes.map((n) => nodeLatLon(n, positions)),
     [nodes, positions],
   );
 
@@ -83,9 +88,9 @@ function NodePoints() {
       {nodes.map((node, i) => {
         const { lat, lon } = spherical[i];
         const pos = latLonToVec3(lat, lon, GLOBE_RADIUS + 0.04);
-        const isPublisher = node.id === publisherNodeId;
-        const rlncDone = isRLNCReconstructed(node.id);
-        const gossipDone = hasGossipMessage(node.id);
+        const isPublisher = publisherNodeIds.includes(node.id);
+        const rlncDone = dashboardEngine.isRLNCReconstructed(node.id);
+        const gossipDone = dashboardEngine.hasGossipMessage(node.id);
 
         let color = '#4A5568';
         if (isPublisher) color = NODE_PUBLISHING;
@@ -124,7 +129,7 @@ function EdgeCurves() {
   const nodeMap = useMemo(() => {
     const map = new Map<string, { lat: number; lon: number }>();
     nodes.forEach((n) => {
-      map.set(n.id, positionToSpherical(n.position, positions));
+      map.set(n.id, nodeLatLon(n, positions));
     });
     return map;
   }, [nodes, positions]);
@@ -169,7 +174,7 @@ function Particles() {
   const nodeMap = useMemo(() => {
     const map = new Map<string, { lat: number; lon: number }>();
     nodes.forEach((n) => {
-      map.set(n.id, positionToSpherical(n.position, positions));
+      map.set(n.id, nodeLatLon(n, positions));
     });
     return map;
   }, [nodes, positions]);
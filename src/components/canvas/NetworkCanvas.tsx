@@ -1,6 +1,6 @@
 'use client';
 
-import { useMemo } from 'react';
+import { useMemo, useRef, useState } from 'react';
 import {
   ReactFlow,
   Background,
@@ -10,10 +10,15 @@ import {
 } from '@xyflow/react';
 import '@xyflow/react/dist/style.css';
 
-import { useDashboardStore } from '@/store';
+import { useDashboardStore, dashboardEngine } from '@/store';
+import { parseTopologyFile } from '@/simulation/topologyImport';
+import { NETWORK_PRESETS } from '@/constants/defaults';
+import { ACCENT_TEAL, BG_PANEL, FAILURE_RED, TEXT_PRIMARY, TEXT_SECONDARY } from '@/constants/colors';
 import FlexNodeComponent from './FlexNodeComponent';
-import AnimatedEdge from './AnimatedEdge';
+import AnimatedEdge, { type AnimatedEdgeData } from './AnimatedEdge';
 import ParticleOverlay from './ParticleOverlay';
+import EdgeLossEditor from './EdgeLossEditor';
+import NodeEditor from './NodeEditor';
 
 const nodeTypes = {
   flexNode: FlexNodeComponent,
@@ -30,6 +35,19 @@ interface NetworkCanvasProps {
 export default function NetworkCanvas({ protocol }: NetworkCanvasProps) {
   const nodes = useDashboardStore((s) => s.nodes);
   const edges = useDashboardStore((s) => s.edges);
+  const running = useDashboardStore((s) => s.running);
+  // Seeking replays the run from the store, so its inputs stay fixed until reset
+  const canModifyNetwork = useDashboardStore((s) => !s.running && !s.publisherNodeId);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [editingEdge, setEditingEdge] = useState<{
+    source: string;
+    target: string;
+    x: number;
+    y: number;
+  } | null>(null);
+  const [editingNode, setEditingNode] = useState<{ nodeId: string; x: number; y: number } | null>(null);
+  const [dragOver, setDragOver] = useState(false);
+  const [importErrors, setImportErrors] = useState<{ fileName: string; errors: string[] } | null>(null);
 
   // Convert simulation nodes to React Flow nodes, passing protocol in data
   const flowNodes: Node[] = useMemo(
@@ -52,18 +70,83 @@ export default function NetworkCanvas({ protocol }: NetworkCanvasProps) {
       const key = [e.source, e.target].sort().join('--');
       if (seen.has(key)) continue;
       seen.add(key);
+      const data: AnimatedEdgeData = {
+        lossRate: e.packetLossRate,
+        customLoss: e.customLoss ?? false,
+      };
       result.push({
         id: e.id,
         source: e.source,
         target: e.target,
         type: 'animated',
+        data,
       });
     }
     return result;
   }, [edges]);
 
+  // Click a link to set its loss (disabled once a run exists: the engine has already read the edges)
+  const handleEdgeClick = (event: React.MouseEvent, edge: FlowEdge) => {
+    if (!canModifyNetwork) return;
+    const rect = containerRef.current?.getBoundingClientRect();
+    setEditingNode(null);
+    setEditingEdge({
+      source: edge.source,
+      target: edge.target,
+      x: event.clientX - (rect?.left ?? 0),
+      y: event.clientY - (rect?.top ?? 0),
+    });
+  };
+
+  // Right-click a node for its settings (left click proposes a block)
+  const handleNodeContextMenu = (event: React.MouseEvent, node: Node) => {
+    event.preventDefault();
+    if (!canModifyNetwork) return;
+    const rect = containerRef.current?.getBoundingClientRect();
+    setEditingEdge(null);
+    setEditingNode({
+      nodeId: node.id,
+      x: event.clientX - (rect?.left ?? 0),
+      y: event.clientY - (rect?.top ?? 0),
+    });
+  };
+
+  // Drop a JSON, GraphML or CSV network on the canvas to replace the generated one
+  const handleDrop = async (event: React.DragEvent) => {
+    event.preventDefault();
+    setDragOver(false);
+    const file = event.dataTransfer.files[0];
+    if (!file || running) return;
+    const state = useDashboardStore.getState();
+    const result = parseTopologyFile(file.name, await file.text(), {
+      latencyMs: NETWORK_PRESETS[state.networkPreset].latencyMean,
+      bandwidthMbps: state.bandwidthMbps,
+      packetLossRate: state.packetLoss / 100,
+    });
+    if (!result.ok) {
+      setImportErrors({ fileName: file.name, errors: result.errors });
+      return;
+    }
+    setImportErrors(null);
+    setEditingEdge(null);
+    setEditingNode(null);
+    dashboardEngine.clear();
+    state.importTopology(result.topology, file.name);
+  };
+
   return (
-    <div className="relative w-full h-full" style={{ minHeight: 300 }}>
+    <div
+      ref={containerRef}
+      className="relative w-full h-full"
+      style={{ minHeight: 300, outline: dragOver ? `2px dashed ${ACCENT_TEAL}` : undefined, outlineOffset: -4 }}
+      onDragOver={(e) => {
+        if (running || !e.dataTransfer.types.includes('Files')) return;
+        e.preventDefault();
+        setDragOver(true);
+      }}
+      onDragLeave={() => setDragOver(false)}
+      onDrop={handleDrop}
+    >
       <ReactFlow
         nodes={flowNodes}
         edges={flowEdges}
@@ -78,6 +161,12 @@ export default function NetworkCanvas({ protocol }: NetworkCanvasProps) {
         nodesDraggable={true}
         nodesConnectable={false}
         elementsSelectable={false}
+        onEdgeClick={handleEdgeClick}
+        onNodeContextMenu={handleNodeContextMenu}
+        onPaneClick={() => {
+          setEditingEdge(null);
+          setEditingNode(null);
+        }}
       >
         <Background
           variant={BackgroundVariant.Dots}
@@ -87,6 +176,36 @@ export default function NetworkCanvas({ protocol }: NetworkCanvasProps) {
         />
         <ParticleOverlay protocol={protocol} />
       </ReactFlow>
+      {editingEdge && canModifyNetwork && (
+        <EdgeLossEditor {...editingEdge} onClose={() => setEditingEdge(null)} />
+      )}
+      {editingNode && canModifyNetwork && (
+        <NodeEditor {...editingNode} onClose={() => setEditingNode(null)} />
+      )}
+      {importErrors && (
+        <div
+          className="absolute z-30 left-3 top-3 w-72 p-3 rounded-lg shadow-lg border border-[#2a3450]"
+          style={{ backgroundColor: BG_PANEL, color: TEXT_PRIMARY }}
+          role="alert"
+        >
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-xs font-medium">Could not import {importErrors.fileName}</span>
+            <button
+              onClick={() => setImportErrors(null)}
+              className="text-[10px] px-1"
+              style={{ color: TEXT_SECONDARY }}
+              aria-label="Dismiss import errors"
+            >
+              ✕
+            </button>
+          </div>
+          <ul className="space-y-1 text-[10px] max-h-40 overflow-y-auto" style={{ color: FAILURE_RED }}>
+            {importErrors.errors.map((error, i) => (
+              <li key={i}>{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,104 @@
+'use client';
+
+import { useDashboardStore } from '@/store';
+import { ACCENT_TEAL, BG_PANEL, TEXT_PRIMARY, TEXT_SECONDARY } from '@/constants/colors';
+import { TOPIC_LABELS } from '@/constants/defaults';
+import { subscribesTo } from '@/simulation/engine';
+import type { Topic } from '@/simulation/types';
+
+interface NodeEditorProps {
+  nodeId: string;
+  /** Position relative to the canvas container */
+  x: number;
+  y: number;
+  onClose: () => void;
+}
+
+const CPU_SPEED_STEPS = [0.25, 0.5, 1, 2, 4];
+
+/**
+ * Popover for per-node settings, e.g. a slow validator whose CPU makes
+ * every elimination, recode and decode take longer, or a node that only
+ * relays a topic it doesn't subscribe to.
+ */
+export default function NodeEditor({ nodeId, x, y, onClose }: NodeEditorProps) {
+  const node = useDashboardStore((s) => s.nodes.find((n) => n.id === nodeId));
+  const setNodeCpuSpeed = useDashboardStore((s) => s.setNodeCpuSpeed);
+  const setNodeSubscriptions = useDashboardStore((s) => s.setNodeSubscriptions);
+
+  if (!node) return null;
+
+  const cpuSpeed = node.cpuSpeed ?? 1;
+  const topics = Object.keys(TOPIC_LABELS) as Topic[];
+  const toggleTopic = (topic: Topic) => {
+    const subscribed = topics.filter((t) => subscribesTo(node, t) !== (t === topic));
+    setNodeSubscriptions(nodeId, subscribed);
+  };
+
+  return (
+    <div
+      className="absolute z-30 w-48 p-3 rounded-lg shadow-lg border border-[#2a3450]"
+      style={{ left: x, top: y, backgroundColor: BG_PANEL, color: TEXT_PRIMARY }}
+      role="dialog"
+      aria-label="Edit node"
+    >
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs font-medium">{node.label}</span>
+        <button
+          onClick={onClose}
+          className="text-[10px] px-1"
+          style={{ color: TEXT_SECONDARY }}
+          aria-label="Close node editor"
+        >
+          ✕
+        </button>
+      </div>
+      <div className="flex items-center justify-between mb-1 text-[10px]">
+        <span style={{ color: TEXT_SECONDARY }}>CPU speed</span>
+        <span className="font-mono" style={{ color: ACCENT_TEAL }}>{cpuSpeed}×</span>
+      </div>
+      <div className="flex gap-1">
+        {CPU_SPEED_STEPS.map((speed) => (
+          <button
+            key={speed}
+            onClick={() => setNodeCpuSpeed(nodeId, speed)}
+            className="flex-1 px-1 py-1 rounded text-[10px] font-medium transition-colors"
+            style={{
+              backgroundColor: cpuSpeed === speed ? ACCENT_TEAL : '#1e2840',
+              color: cpuSpeed === speed ? '#000' : TEXT_SECONDARY,
+            }}
+          >
+            {speed}×
+          </button>
+        ))}
+      </div>
+      <p className="text-[10px] mt-1" style={{ color: TEXT_SECONDARY }}>
+        Scales decode, recode and block validation time
+      </p>
+      <div className="mt-3 mb-1 text-[10px]" style={{ color: TEXT_SECONDARY }}>
+        Subscriptions
+      </div>
+      <div className="flex gap-1">
+        {topics.map((topic) => {
+          const subscribed = subscribesTo(node, topic);
+          return (
+            <button
+              key={topic}
+              onClick={() => toggleTopic(topic)}
+              className="flex-1 px-1 py-1 rounded text-[10px] font-medium transition-colors"
+              style={{
+                backgroundColor: subscribed ? ACCENT_TEAL : '#1e2840',
+                color: subscribed ? '#000' : TEXT_SECONDARY,
+              }}
+            >
+              {TOPIC_LABELS[topic]}
+            </button>
+          );
+        })}
+      </div>
+      <p className="text-[10px] mt-1" style={{ color: TEXT_SECONDARY }}>
+        Unsubscribed topics are still relayed
+      </p>
+    </div>
+  );
+}
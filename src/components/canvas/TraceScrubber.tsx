@@ -0,0 +1,149 @@
+'use client';
+
+import { useDashboardStore, dashboardEngine, engineInitParams, recordedHorizonTrace } from '@/store';
+import { SimulationEngine, type TraceEvent } from '@/simulation/engine';
+import { traceToChromeTrace, traceToCsv, traceToNdjson } from '@/simulation/traceExport';
+import { downloadText } from '@/lib/download';
+import { ACCENT_TEAL, BG_PANEL, TEXT_SECONDARY } from '@/constants/colors';
+
+interface TraceScrubberProps {
+  onSeek: (simTime: number) => void;
+  onStepForward: () => void;
+  onStepBackward: () => void;
+}
+
+const stepButtonStyle = {
+  backgroundColor: '#1e2840',
+  color: ACCENT_TEAL,
+  border: `1px solid ${ACCENT_TEAL}40`,
+};
+
+const exportButtonStyle = {
+  backgroundColor: '#1e2840',
+  color: TEXT_SECONDARY,
+  border: '1px solid #2a3450',
+};
+
+const TRACE_FORMATS: {
+  label: string;
+  ext: string;
+  type: string;
+  serialize: (trace: readonly TraceEvent[]) => string;
+}[] = [
+  { label: 'CSV', ext: 'csv', type: 'text/csv', serialize: traceToCsv },
+  { label: 'NDJSON', ext: 'ndjson', type: 'application/x-ndjson', serialize: traceToNdjson },
+  {
+    label: 'Chrome',
+    ext: 'trace.json',
+    type: 'application/json',
+    serialize: (trace) => traceToChromeTrace(trace, useDashboardStore.getState().nodes),
+  },
+];
+
+/**
+ * The run's trace up to its horizon as the engine recorded it. Only a
+ * restored bundle scrubbed back has none, and is replayed privately.
+ */
+function fullTrace(): readonly TraceEvent[] {
+  const state = useDashboardStore.getState();
+  if (state.simTime >= state.traceHorizonMs) return dashboardEngine.getTrace();
+  const recorded = recordedHorizonTrace();
+  if (recorded) return recorded;
+  const engine = new SimulationEngine();
+  engine.init(engineInitParams(state));
+  engine.advanceTo(state.traceHorizonMs);
+  return engine.getTrace();
+}
+
+/**
+ * Timeline under the canvases for the current run. Dragging seeks to any
+ * simulated time reached so far, replaying the seeded run to show node
+ * states and in-flight particles as they were. ◀ steps back to the
+ * previous packet arrival, the only events the trace records; ▶ steps to
+ * the next event of any kind. The trace downloads as CSV, NDJSON or Chrome
+ * trace-event JSON.
+ */
+export default function TraceScrubber({ onSeek, onStepForward, onStepBackward }: TraceScrubberProps) {
+  const publisherNodeId = useDashboardStore((s) => s.publisherNodeId);
+  const simTime = useDashboardStore((s) => s.simTime);
+  const horizon = useDashboardStore((s) => s.traceHorizonMs);
+
+  if (!publisherNodeId) return null;
+
+  const arrivals = dashboardEngine.getTrace().length;
+
+  const pause = () => {
+    const store = useDashboardStore.getState();
+    if (store.running) store.setRunning(false);
+    return store;
+  };
+
+  const seek = (t: number) => {
+    pause();
+    onSeek(Math.max(0, Math.min(horizon, t)));
+  };
+
+  // An unfinished run steps the live engine; a finished one is replayed
+  const stepForward = () => {
+    const store = pause();
+    if (!store.simulationDone) {
+      onStepForward();
+      return;
+    }
+    const next = dashboardEngine.nextEventTime();
+    if (next !== null && next < horizon) seek(next + 0.001);
+  };
+
+  return (
+    <div
+      className="absolute bottom-9 left-0 right-0 z-10 flex items-center gap-2 px-4 py-1.5 border-t border-[#1e2840]"
+      style={{ backgroundColor: `${BG_PANEL}E6` }}
+      role="group"
+      aria-label="Run timeline"
+    >
+      <button
+        onClick={onStepBackward}
+        className="text-[10px] px-2 py-0.5 rounded font-bold"
+        style={stepButtonStyle}
+        aria-label="Step back to the previous arrival"
+      >
+        ◀
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={horizon}
+        step={0.1}
+        value={Math.min(simTime, horizon)}
+        onChange={(e) => seek(Number(e.target.value))}
+        className="flex-1 accent-teal-400"
+        aria-label="Seek simulated time"
+      />
+      <button
+        onClick={stepForward}
+        className="text-[10px] px-2 py-0.5 rounded font-bold"
+        style={stepButtonStyle}
+        aria-label="Step forward to the next event"
+      >
+        ▶
+      </button>
+      <span className="text-[10px] font-mono whitespace-nowrap" style={{ color: TEXT_SECONDARY }}>
+        {simTime.toFixed(1)} / {horizon.toFixed(1)}ms · {arrivals} arrivals
+      </span>
+      {TRACE_FORMATS.map(({ label, ext, type, serialize }) => (
+        <button
+          key={label}
+          onClick={() => {
+            const { seed, publisherNodeId: proposer } = useDashboardStore.getState();
+            downloadText(`mump2p-trace-${seed}-${proposer}.${ext}`, serialize(fullTrace()), type);
+          }}
+          className="text-[10px] px-2 py-0.5 rounded font-medium transition-colors hover:brightness-110"
+          style={exportButtonStyle}
+          aria-label={`Download trace as ${label}`}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+}
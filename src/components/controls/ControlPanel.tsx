@@ -1,9 +1,12 @@
 'use client';
 
-import { useDashboardStore } from '@/store';
-import { clearEngine } from '@/simulation/engine';
-import type { ComparisonMode, NetworkPreset, TopologyType } from '@/simulation/types';
-import { NETWORK_PRESETS } from '@/constants/defaults';
+import { useDashboardStore, dashboardEngine, randomSeed } from '@/store';
+import { rlncShardBytes } from '@/simulation/engine';
+import { gossipMeshParams } from '@/simulation/gossipMesh';
+import type { ComparisonMode, LossModelType, NetworkPreset, RlncCodingMode, TopologyType } from '@/simulation/types';
+import { gilbertElliottStateLoss, meanBadRunLength } from '@/simulation/lossModel';
+import { FIELDS } from '@/lib/galoisField';
+import { NETWORK_PRESETS, TOPOLOGY_LABELS } from '@/constants/defaults';
 import { ACCENT_TEAL, BG_PANEL, TEXT_PRIMARY, TEXT_SECONDARY } from '@/constants/colors';
 
 interface ControlPanelProps {
@@ -17,38 +20,89 @@ export default function ControlPanel({ onStep, onReset }: ControlPanelProps) {
   const networkPreset = useDashboardStore((s) => s.networkPreset);
   const comparisonMode = useDashboardStore((s) => s.comparisonMode);
   const topology = useDashboardStore((s) => s.topology);
+  const topologyOptions = useDashboardStore((s) => s.topologyOptions);
+  const importedTopology = useDashboardStore((s) => s.importedTopology);
   const k = useDashboardStore((s) => s.k);
+  const rlncField = useDashboardStore((s) => s.rlncField);
+  const rlncSystematic = useDashboardStore((s) => s.rlncSystematic);
+  const rlncCodingDensity = useDashboardStore((s) => s.rlncCodingDensity);
+  const rlncCodingMode = useDashboardStore((s) => s.rlncCodingMode);
+  const rlncFeedback = useDashboardStore((s) => s.rlncFeedback);
+  const rlncWindowSize = useDashboardStore((s) => s.rlncWindowSize);
+  const gossipMeshDegree = useDashboardStore((s) => s.gossipMeshDegree);
+  const publisherCount = useDashboardStore((s) => s.publisherCount);
+  const messageCount = useDashboardStore((s) => s.messageCount);
+  const messageIntervalMs = useDashboardStore((s) => s.messageIntervalMs);
   const speed = useDashboardStore((s) => s.speed);
   const running = useDashboardStore((s) => s.running);
   const simulationDone = useDashboardStore((s) => s.simulationDone);
   const publisherNodeId = useDashboardStore((s) => s.publisherNodeId);
   const simTime = useDashboardStore((s) => s.simTime);
+  const seed = useDashboardStore((s) => s.seed);
+  const lossModelType = useDashboardStore((s) => s.lossModelType);
+  const gilbertElliott = useDashboardStore((s) => s.gilbertElliott);
+  const bandwidthMbps = useDashboardStore((s) => s.bandwidthMbps);
+  const blockSizeKB = useDashboardStore((s) => s.blockSizeKB);
 
   const setNodeCount = useDashboardStore((s) => s.setNodeCount);
   const setPacketLoss = useDashboardStore((s) => s.setPacketLoss);
+  const setLossModelType = useDashboardStore((s) => s.setLossModelType);
+  const setGilbertElliott = useDashboardStore((s) => s.setGilbertElliott);
   const setNetworkPreset = useDashboardStore((s) => s.setNetworkPreset);
   const setComparisonMode = useDashboardStore((s) => s.setComparisonMode);
   const setTopology = useDashboardStore((s) => s.setTopology);
+  const setTopologyOptions = useDashboardStore((s) => s.setTopologyOptions);
   const setK = useDashboardStore((s) => s.setK);
+  const setRlncField = useDashboardStore((s) => s.setRlncField);
+  const setRlncSystematic = useDashboardStore((s) => s.setRlncSystematic);
+  const setRlncCodingDensity = useDashboardStore((s) => s.setRlncCodingDensity);
+  const setRlncCodingMode = useDashboardStore((s) => s.setRlncCodingMode);
+  const setRlncFeedback = useDashboardStore((s) => s.setRlncFeedback);
+  const setRlncWindowSize = useDashboardStore((s) => s.setRlncWindowSize);
+  const setGossipMeshDegree = useDashboardStore((s) => s.setGossipMeshDegree);
+  const setPublisherCount = useDashboardStore((s) => s.setPublisherCount);
+  const setMessageCount = useDashboardStore((s) => s.setMessageCount);
+  const setMessageInterval = useDashboardStore((s) => s.setMessageInterval);
+  const setBandwidth = useDashboardStore((s) => s.setBandwidth);
+  const setBlockSize = useDashboardStore((s) => s.setBlockSize);
   const setSpeed = useDashboardStore((s) => s.setSpeed);
+  const setSeed = useDashboardStore((s) => s.setSeed);
   const regenerateTopology = useDashboardStore((s) => s.regenerateTopology);
   const resetSimulation = useDashboardStore((s) => s.resetSimulation);
   const setRunning = useDashboardStore((s) => s.setRunning);
-  const startPropagation = useDashboardStore((s) => s.startPropagation);
-  const nodes = useDashboardStore((s) => s.nodes);
+  const startNextSlot = useDashboardStore((s) => s.startNextSlot);
+
+  // Blank or unchanged input reverts to the current seed
+  const commitSeed = (input: HTMLInputElement) => {
+    const next = input.value.trim();
+    if (!next || next === seed) {
+      input.value = seed;
+      return;
+    }
+    dashboardEngine.clear();
+    setSeed(next);
+  };
 
   const handleReset = () => {
     onReset?.();
-    clearEngine();
+    dashboardEngine.clear();
     resetSimulation();
   };
 
   const handleStartContinuous = () => {
-    const randomIdx = Math.floor(Math.random() * nodes.length);
-    startPropagation(nodes[randomIdx].id);
+    startNextSlot();
   };
 
   const canModifyNetwork = !running && !publisherNodeId;
+  const stateLoss = gilbertElliottStateLoss(
+    packetLoss / 100,
+    gilbertElliott.pGoodToBad,
+    gilbertElliott.pBadToGood,
+  );
+  const meshParams = gossipMeshParams(gossipMeshDegree);
+  // Per-link serialization time (ms) for a full block and one RLNC shard
+  const blockTxMs = (blockSizeKB * 1024 * 8) / (bandwidthMbps * 1000);
+  const shardTxMs = (rlncShardBytes(blockSizeKB * 1024, k, FIELDS[rlncField]) * 8) / (bandwidthMbps * 1000);
 
   return (
     <div
@@ -84,25 +138,84 @@ export default function ControlPanel({ onStep, onReset }: ControlPanelProps) {
       </Section>
 
       {/* Topology */}
-      <Section label="Topology">
+      <Section label="Topology" tooltip="Mesh, ring and star are toy layouts. Random gives every node the same number of random peers; Kademlia picks peers across XOR-distance buckets like discv5; Erdős–Rényi links each pair with probability p; Scale-free grows hubs by preferential attachment; Small World rewires a ring lattice. Drop a JSON, GraphML or CSV file on a canvas to load your own network.">
         <div className="grid grid-cols-2 gap-1.5">
-          {(['mesh', 'ring', 'star', 'random'] as TopologyType[]).map((t) => (
+          {(Object.keys(TOPOLOGY_LABELS) as TopologyType[]).map((t) => (
             <button
               key={t}
               onClick={() => setTopology(t)}
               disabled={!canModifyNetwork}
               className="px-3 py-1.5 rounded text-xs font-medium transition-colors disabled:opacity-50"
               style={{
-                backgroundColor: topology === t ? ACCENT_TEAL : '#1e2840',
-                color: topology === t ? '#000' : TEXT_SECONDARY,
+                backgroundColor: topology === t && !importedTopology ? ACCENT_TEAL : '#1e2840',
+                color: topology === t && !importedTopology ? '#000' : TEXT_SECONDARY,
               }}
             >
-              {t.charAt(0).toUpperCase() + t.slice(1)}
+              {TOPOLOGY_LABELS[t]}
             </button>
           ))}
         </div>
+        {importedTopology && (
+          <div className="mt-2 text-[10px] truncate" style={{ color: ACCENT_TEAL }} title={importedTopology}>
+            Imported: {importedTopology} ({nodeCount} nodes)
+          </div>
+        )}
+        {['random', 'kademlia', 'scale-free', 'small-world'].includes(topology) && (
+          <div className="mt-2">
+            <div className="flex justify-between text-[10px]" style={{ color: TEXT_SECONDARY }}>
+              <span>Target peers</span>
+              <span>{topologyOptions.targetPeers}</span>
+            </div>
+            <input
+              type="range"
+              min={2}
+              max={12}
+              step={1}
+              value={topologyOptions.targetPeers}
+              onChange={(e) => setTopologyOptions({ targetPeers: Number(e.target.value) })}
+              className="w-full accent-teal-400"
+              disabled={!canModifyNetwork}
+            />
+          </div>
+        )}
+        {topology === 'erdos-renyi' && (
+          <div className="mt-2">
+            <div className="flex justify-between text-[10px]" style={{ color: TEXT_SECONDARY }}>
+              <span>Link probability p</span>
+              <span>{topologyOptions.erdosRenyiP.toFixed(2)}</span>
+            </div>
+            <input
+              type="range"
+              min={0.05}
+              max={1}
+              step={0.05}
+              value={topologyOptions.erdosRenyiP}
+              onChange={(e) => setTopologyOptions({ erdosRenyiP: Number(e.target.value) })}
+              className="w-full accent-teal-400"
+              disabled={!canModifyNetwork}
+            />
+          </div>
+        )}
+        {topology === 'small-world' && (
+          <div className="mt-2">
+            <div className="flex justify-between text-[10px]" style={{ color: TEXT_SECONDARY }}>
+              <span>Rewiring β</span>
+              <span>{topologyOptions.rewireProbability.toFixed(2)}</span>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={topologyOptions.rewireProbability}
+              onChange={(e) => setTopologyOptions({ rewireProbability: Number(e.target.value) })}
+              className="w-full accent-teal-400"
+              disabled={!canModifyNetwork}
+            />
+          </div>
+        )}
         <button
-          onClick={() => { clearEngine(); regenerateTopology(); }}
+          onClick={() => { dashboardEngine.clear(); regenerateTopology(); }}
           disabled={!canModifyNetwork}
           className="mt-2 w-full px-3 py-1.5 rounded text-xs font-medium transition-colors hover:brightness-110 disabled:opacity-50"
           style={{ backgroundColor: '#1e2840', color: TEXT_SECONDARY }}
@@ -111,8 +224,60 @@ export default function ControlPanel({ onStep, onReset }: ControlPanelProps) {
         </button>
       </Section>
 
+      {/* Placement */}
+      <Section label="Placement" tooltip="Abstract spreads nodes on a circle and draws each link's latency from the network preset. Geographic places nodes in real datacenter regions, weighted by where validators run, and sets link latency from great-circle distance plus a fixed per-hop overhead.">
+        <div className="flex gap-1.5">
+          {([
+            { key: false, label: 'Abstract' },
+            { key: true, label: 'Geographic' },
+          ]).map(({ key, label }) => (
+            <button
+              key={label}
+              onClick={() => setTopologyOptions({ geo: key })}
+              disabled={!canModifyNetwork}
+              className="flex-1 px-3 py-1.5 rounded text-xs font-medium transition-colors disabled:opacity-50"
+              style={{
+                backgroundColor: topologyOptions.geo === key ? ACCENT_TEAL : '#1e2840',
+                color: topologyOptions.geo === key ? '#000' : TEXT_SECONDARY,
+              }}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </Section>
+
+      {/* Seed */}
+      <Section label="Seed" tooltip="Drives topology generation, packet-loss draws, coding vectors and proposer selection. The same seed and settings replay the exact same race — it is included in the share link.">
+        <div className="flex gap-1.5">
+          {/* Applied on blur or Enter; remounts with the store's seed when it changes elsewhere */}
+          <input
+            key={seed}
+            type="text"
+            defaultValue={seed}
+            maxLength={64}
+            onBlur={(e) => commitSeed(e.currentTarget)}
+            onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+            disabled={!canModifyNetwork}
+            spellCheck={false}
+            aria-label="Simulation seed"
+            className="flex-1 min-w-0 px-2 py-1.5 rounded text-xs font-mono disabled:opacity-50"
+            style={{ backgroundColor: '#1e2840', color: TEXT_PRIMARY }}
+          />
+          <button
+            onClick={() => { dashboardEngine.clear(); setSeed(randomSeed()); }}
+            disabled={!canModifyNetwork}
+            className="px-2.5 py-1.5 rounded text-xs font-medium transition-colors hover:brightness-110 disabled:opacity-50"
+            style={{ backgroundColor: '#1e2840', color: TEXT_SECONDARY }}
+            aria-label="Pick a random seed"
+          >
+            Shuffle
+          </button>
+        </div>
+      </Section>
+
       {/* Packet Loss */}
-      <Section label="Network Messiness" value={`${packetLoss}%`} tooltip="Simulates packet loss from network congestion, unreliable links, or adversarial conditions. Higher values make GossipSub degrade faster than RLNC.">
+      <Section label="Network Messiness" value={`${packetLoss}%`} tooltip="Simulates packet loss from network congestion, unreliable links, or adversarial conditions. Higher values make GossipSub degrade faster than RLNC. Click any link on the canvas to give it its own loss rate.">
         <input
           type="range"
           min={0}
@@ -121,7 +286,7 @@ export default function ControlPanel({ onStep, onReset }: ControlPanelProps) {
           value={packetLoss}
           onChange={(e) => setPacketLoss(Number(e.target.value))}
           className="w-full accent-teal-400"
-          disabled={running}
+          disabled={!canModifyNetwork}
         />
         <div className="flex justify-between text-[10px]" style={{ color: TEXT_SECONDARY }}>
           <span>0% (clean)</span>
@@ -129,6 +294,73 @@ export default function ControlPanel({ onStep, onReset }: ControlPanelProps) {
         </div>
       </Section>
 
+      {/* Loss Model */}
+      <Section label="Loss Model" tooltip="Bernoulli drops each packet independently. Gilbert–Elliott switches each link between a good and a bad state, so the same average loss arrives in bursts — closer to congestion and flaky links in practice.">
+        <div className="flex gap-1.5">
+          {([
+            { key: 'bernoulli', label: 'Bernoulli' },
+            { key: 'gilbert-elliott', label: 'Bursty (G–E)' },
+          ] as { key: LossModelType; label: string }[]).map(({ key, label }) => (
+            <button
+              key={key}
+              onClick={() => setLossModelType(key)}
+              disabled={!canModifyNetwork}
+              className="flex-1 px-3 py-1.5 rounded text-xs font-medium transition-colors disabled:opacity-50"
+              style={{
+                backgroundColor: lossModelType === key ? ACCENT_TEAL : '#1e2840',
+                color: lossModelType === key ? '#000' : TEXT_SECONDARY,
+              }}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {lossModelType === 'gilbert-elliott' && (
+          <div className="mt-2 flex flex-col gap-2">
+            <div>
+              <div className="flex justify-between text-[10px] mb-0.5" style={{ color: TEXT_SECONDARY }}>
+                <span>P(good → bad)</span>
+                <span className="font-mono" style={{ color: ACCENT_TEAL }}>
+                  {gilbertElliott.pGoodToBad.toFixed(2)}
+                </span>
+              </div>
+              <input
+                type="range"
+                min={0.01}
+                max={0.5}
+                step={0.01}
+                value={gilbertElliott.pGoodToBad}
+                onChange={(e) => setGilbertElliott({ pGoodToBad: Number(e.target.value) })}
+                className="w-full accent-teal-400"
+                disabled={!canModifyNetwork}
+              />
+            </div>
+            <div>
+              <div className="flex justify-between text-[10px] mb-0.5" style={{ color: TEXT_SECONDARY }}>
+                <span>P(bad → good)</span>
+                <span className="font-mono" style={{ color: ACCENT_TEAL }}>
+                  {gilbertElliott.pBadToGood.toFixed(2)}
+                </span>
+              </div>
+              <input
+                type="range"
+                min={0.05}
+                max={1}
+                step={0.05}
+                value={gilbertElliott.pBadToGood}
+                onChange={(e) => setGilbertElliott({ pBadToGood: Number(e.target.value) })}
+                className="w-full accent-teal-400"
+                disabled={!canModifyNetwork}
+              />
+            </div>
+            <p className="text-[10px]" style={{ color: TEXT_SECONDARY }}>
+              Bad runs ~{meanBadRunLength(gilbertElliott.pBadToGood).toFixed(1)} packets ·
+              loss {Math.round(stateLoss.lossGood * 100)}% good / {Math.round(stateLoss.lossBad * 100)}% bad
+            </p>
+          </div>
+        )}
+      </Section>
+
       {/* Network Preset */}
       <Section label="Network">
         <div className="flex gap-1.5">
@@ -242,6 +474,214 @@ export default function ControlPanel({ onStep, onReset }: ControlPanelProps) {
               disabled={!canModifyNetwork}
             />
           </Section>
+
+          <Section label="Coding Field" value={FIELDS[rlncField].label} tooltip="Field the RLNC coefficients are drawn from. A random shard is linearly dependent on what a node already holds with probability about 1/q, so small fields waste shards; larger fields cost more header bits per coefficient.">
+            <div className="flex gap-1.5">
+              {Object.values(FIELDS).map((field) => (
+                <button
+                  key={field.name}
+                  onClick={() => setRlncField(field.name)}
+                  disabled={!canModifyNetwork}
+                  className="flex-1 px-1 py-1.5 rounded text-[10px] font-medium transition-colors disabled:opacity-50"
+                  style={{
+                    backgroundColor: rlncField === field.name ? ACCENT_TEAL : '#1e2840',
+                    color: rlncField === field.name ? '#000' : TEXT_SECONDARY,
+                  }}
+                >
+                  {field.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-[10px] mt-1" style={{ color: TEXT_SECONDARY }}>
+              q = {FIELDS[rlncField].size} · header {Math.ceil((k * FIELDS[rlncField].bits) / 8)} B/shard
+            </p>
+          </Section>
+
+          <Section label="RLNC Publishing" tooltip="Random sends only coded combinations. Systematic sends the k source symbols uncoded first, then coded repair shards — a node that gets all k originals needs no decoding, while losses are covered by the repair shards.">
+            <div className="flex gap-1.5">
+              {([
+                { key: false, label: 'Random' },
+                { key: true, label: 'Systematic' },
+              ]).map(({ key, label }) => (
+                <button
+                  key={label}
+                  onClick={() => setRlncSystematic(key)}
+                  disabled={!canModifyNetwork}
+                  className="flex-1 px-3 py-1.5 rounded text-xs font-medium transition-colors disabled:opacity-50"
+                  style={{
+                    backgroundColor: rlncSystematic === key ? ACCENT_TEAL : '#1e2840',
+                    color: rlncSystematic === key ? '#000' : TEXT_SECONDARY,
+                  }}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </Section>
+
+          <Section label="RLNC Forwarding" tooltip="Blind push keeps sending the fixed publisher burst and resend rounds. With feedback, each node tells its neighbors when it reaches full rank, and senders — the publisher included — stop pushing to peers that said so. Compare bytes on the wire to see what the feedback saves.">
+            <div className="flex gap-1.5">
+              {([
+                { key: false, label: 'Blind Push' },
+                { key: true, label: 'Feedback' },
+              ]).map(({ key, label }) => (
+                <button
+                  key={label}
+                  onClick={() => setRlncFeedback(key)}
+                  disabled={!canModifyNetwork}
+                  className="flex-1 px-3 py-1.5 rounded text-xs font-medium transition-colors disabled:opacity-50"
+                  style={{
+                    backgroundColor: rlncFeedback === key ? ACCENT_TEAL : '#1e2840',
+                    color: rlncFeedback === key ? '#000' : TEXT_SECONDARY,
+                  }}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </Section>
+
+          <Section label="Coding Density" value={rlncCodingDensity >= 1 ? 'Dense' : `${Math.round(rlncCodingDensity * 100)}%`} tooltip="Chance that each coefficient is nonzero, at the publisher and when relays recode. Sparse vectors are cheaper to encode and decode but more often linearly dependent.">
+            <input
+              type="range"
+              min={0.1}
+              max={1}
+              step={0.05}
+              value={rlncCodingDensity}
+              onChange={(e) => setRlncCodingDensity(Number(e.target.value))}
+              className="w-full accent-teal-400"
+              disabled={!canModifyNetwork}
+            />
+          </Section>
+
+          <Section label="Coding Scheme" tooltip="Block coding mixes all k symbols from the start. Sliding-window coding releases the symbols as a stream and mixes only the newest few into each shard, so receivers can decode in order instead of waiting for the whole block.">
+            <div className="flex gap-1.5">
+              {([
+                { key: 'block', label: 'Block' },
+                { key: 'sliding-window', label: 'Sliding Window' },
+              ] as { key: RlncCodingMode; label: string }[]).map(({ key, label }) => (
+                <button
+                  key={key}
+                  onClick={() => setRlncCodingMode(key)}
+                  disabled={!canModifyNetwork}
+                  className="flex-1 px-3 py-1.5 rounded text-xs font-medium transition-colors disabled:opacity-50"
+                  style={{
+                    backgroundColor: rlncCodingMode === key ? ACCENT_TEAL : '#1e2840',
+                    color: rlncCodingMode === key ? '#000' : TEXT_SECONDARY,
+                  }}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {rlncCodingMode === 'sliding-window' && (
+              <div className="mt-2">
+                <div className="flex justify-between text-[10px]" style={{ color: TEXT_SECONDARY }}>
+                  <span>Window</span>
+                  <span>{Math.min(rlncWindowSize, k)} symbols</span>
+                </div>
+                <input
+                  type="range"
+                  min={1}
+                  max={k}
+                  step={1}
+                  value={Math.min(rlncWindowSize, k)}
+                  onChange={(e) => setRlncWindowSize(Number(e.target.value))}
+                  className="w-full accent-teal-400"
+                  disabled={!canModifyNetwork}
+                />
+              </div>
+            )}
+          </Section>
+
+          <Section label="GossipSub Mesh Degree (D)" value={String(gossipMeshDegree)} tooltip="Peers each GossipSub node eagerly pushes full blocks to. The mesh is kept between D_low and D_high; other peers only get IHAVE gossip on each heartbeat and must IWANT the block. Mesh peers that may have missed a push get IHAVE too. The generated networks give most nodes at most D peers, so at the default D every peer is in the mesh and IHAVE/IWANT only repairs lost pushes.">
+            <input
+              type="range"
+              min={2}
+              max={12}
+              step={1}
+              value={gossipMeshDegree}
+              onChange={(e) => setGossipMeshDegree(Number(e.target.value))}
+              className="w-full accent-teal-400"
+              disabled={!canModifyNetwork}
+            />
+            <p className="text-[10px] mt-1" style={{ color: TEXT_SECONDARY }}>
+              D_low {meshParams.dLow} · D_high {meshParams.dHigh} · D_lazy {meshParams.dLazy}
+            </p>
+          </Section>
+
+          <Section label="Concurrent Publishers" value={String(Math.min(publisherCount, nodeCount))} tooltip="Nodes publishing their own messages in the same slot — competing proposers or independent transaction originators. The clicked node is joined by seeded random picks; every message contends for the same links and CPUs.">
+            <input
+              type="range"
+              min={1}
+              max={Math.min(8, nodeCount)}
+              step={1}
+              value={Math.min(publisherCount, nodeCount)}
+              onChange={(e) => setPublisherCount(Number(e.target.value))}
+              className="w-full accent-teal-400"
+              disabled={!canModifyNetwork}
+            />
+          </Section>
+
+          <Section label="Message Stream" value={messageCount > 1 ? `${messageCount} × ${messageIntervalMs}ms` : 'Single'} tooltip="Publish several messages per slot from each publisher — e.g. a block plus blob sidecars — each with its own shards and delivery. Later messages share links and CPUs with earlier ones, so a backlog delays everything behind it (head-of-line blocking).">
+            <input
+              type="range"
+              min={1}
+              max={16}
+              step={1}
+              value={messageCount}
+              onChange={(e) => setMessageCount(Number(e.target.value))}
+              className="w-full accent-teal-400"
+              disabled={!canModifyNetwork}
+            />
+            {messageCount > 1 && (
+              <div className="mt-2">
+                <div className="flex justify-between text-[10px]" style={{ color: TEXT_SECONDARY }}>
+                  <span>Inter-arrival</span>
+                  <span>{messageIntervalMs}ms</span>
+                </div>
+                <input
+                  type="range"
+                  min={0}
+                  max={500}
+                  step={10}
+                  value={messageIntervalMs}
+                  onChange={(e) => setMessageInterval(Number(e.target.value))}
+                  className="w-full accent-teal-400"
+                  disabled={!canModifyNetwork}
+                />
+              </div>
+            )}
+          </Section>
+
+          <Section label="Block Size" value={`${blockSizeKB} KB`} tooltip="Size of the published message. GossipSub forwards the whole block on every hop; RLNC sends shards of blockSize/k plus a header of k coefficients.">
+            <input
+              type="range"
+              min={16}
+              max={2048}
+              step={16}
+              value={blockSizeKB}
+              onChange={(e) => setBlockSize(Number(e.target.value))}
+              className="w-full accent-teal-400"
+              disabled={!canModifyNetwork}
+            />
+          </Section>
+
+          <Section label="Link Bandwidth" value={`${bandwidthMbps} Mbps`} tooltip="Capacity of every link. Packets queue FIFO per link, so fanning a full block out to many peers builds up a backlog.">
+            <input
+              type="range"
+              min={5}
+              max={1000}
+              step={5}
+              value={bandwidthMbps}
+              onChange={(e) => setBandwidth(Number(e.target.value))}
+              className="w-full accent-teal-400"
+              disabled={!canModifyNetwork}
+            />
+            <p className="text-[10px] mt-1" style={{ color: TEXT_SECONDARY }}>
+              Per link: block {blockTxMs.toFixed(1)}ms · shard {shardTxMs.toFixed(1)}ms
+            </p>
+          </Section>
         </div>
       </details>
 
@@ -250,7 +690,8 @@ export default function ControlPanel({ onStep, onReset }: ControlPanelProps) {
         <span className="font-medium">Shortcuts:</span>{' '}
         <kbd className="px-1 py-0.5 rounded bg-[#1e2840] text-[8px]">Space</kbd> play/pause{' '}
         <kbd className="px-1 py-0.5 rounded bg-[#1e2840] text-[8px]">R</kbd> reset{' '}
-        <kbd className="px-1 py-0.5 rounded bg-[#1e2840] text-[8px]">S</kbd> step
+        <kbd className="px-1 py-0.5 rounded bg-[#1e2840] text-[8px]">S</kbd> step{' '}
+        <kbd className="px-1 py-0.5 rounded bg-[#1e2840] text-[8px]">B</kbd> step back
       </div>
 
       {/* Simulation Controls */}
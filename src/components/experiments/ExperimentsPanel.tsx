@@ -0,0 +1,474 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  CartesianGrid,
+} from 'recharts';
+import { useDashboardStore, lossModelOf } from '@/store';
+import {
+  runSweep,
+  DEFAULT_SWEEP_VALUES,
+  SWEEP_PARAMETER_LABELS,
+  type SweepParameter,
+  type SweepProgress,
+  type SweepCell,
+  type ProtocolCellStats,
+} from '@/simulation/experiments';
+import {
+  BG_PANEL,
+  TEXT_PRIMARY,
+  TEXT_SECONDARY,
+  ACCENT_TEAL,
+  RECONSTRUCTED_GREEN,
+  GOSSIP_COLOR,
+  FAILURE_RED,
+} from '@/constants/colors';
+
+type CellMetric = keyof ProtocolCellStats;
+type ResultView = 'heatmap' | 'line' | 'table';
+
+const METRIC_OPTIONS: { key: CellMetric; label: string; lowerIsBetter: boolean }[] = [
+  { key: 'meanLatencyMs', label: 'Mean latency', lowerIsBetter: true },
+  { key: 'p50LatencyMs', label: 'P50 latency', lowerIsBetter: true },
+  { key: 'p95LatencyMs', label: 'P95 latency', lowerIsBetter: true },
+  { key: 'successRate', label: 'Success rate', lowerIsBetter: false },
+  { key: 'overheadRatio', label: 'Overhead ratio', lowerIsBetter: true },
+];
+
+const SWEEP_PARAMETERS = Object.keys(SWEEP_PARAMETER_LABELS) as SweepParameter[];
+
+export default function ExperimentsPanel() {
+  const sweepResult = useDashboardStore((s) => s.sweepResult);
+  const setSweepResult = useDashboardStore((s) => s.setSweepResult);
+
+  const [xParam, setXParam] = useState<SweepParameter>('packetLoss');
+  const [yParam, setYParam] = useState<SweepParameter | null>(null);
+  const [trials, setTrials] = useState(20);
+  const [metric, setMetric] = useState<CellMetric>('meanLatencyMs');
+  const [view, setView] = useState<ResultView>('line');
+  const [rowIndex, setRowIndex] = useState(0);
+  const [progress, setProgress] = useState<SweepProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const isRunning = progress !== null;
+
+  // Switching tabs unmounts the panel and its Cancel button; stop the sweep with it
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleRun = async () => {
+    const store = useDashboardStore.getState();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setProgress({ completedRuns: 0, totalRuns: 1 });
+
+    try {
+      const result = await runSweep(
+        {
+          x: { param: xParam, values: DEFAULT_SWEEP_VALUES[xParam] },
+          y: yParam ? { param: yParam, values: DEFAULT_SWEEP_VALUES[yParam] } : null,
+          trials,
+          base: {
+            nodeCount: store.nodeCount,
+            topology: store.topology,
+            topologyOptions: store.topologyOptions,
+            networkPreset: store.networkPreset,
+            packetLoss: store.packetLoss,
+            lossModel: lossModelOf(store.lossModelType, store.gilbertElliott),
+            bandwidthMbps: store.bandwidthMbps,
+            blockSizeKB: store.blockSizeKB,
+            k: store.k,
+            redundancyFactor: store.redundancyFactor,
+            field: store.rlncField,
+            systematic: store.rlncSystematic,
+            codingDensity: store.rlncCodingDensity,
+            codingMode: store.rlncCodingMode,
+            windowSize: store.rlncWindowSize,
+            feedback: store.rlncFeedback,
+            publisherCount: store.publisherCount,
+            messageCount: store.messageCount,
+            messageIntervalMs: store.messageIntervalMs,
+            gossipMeshDegree: store.gossipMeshDegree,
+          },
+          seed: store.seed,
+        },
+        setProgress,
+        controller.signal,
+      );
+      setSweepResult(result);
+      setRowIndex(0);
+      setView(result.config.y ? 'heatmap' : 'line');
+    } catch (err) {
+      if (err instanceof DOMException && err.name === 'AbortError') return;
+      setError(`Sweep failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const metricOption = METRIC_OPTIONS.find((m) => m.key === metric)!;
+  const rows = sweepResult?.cells ?? [];
+  const selectedRow = rows[Math.min(rowIndex, rows.length - 1)] ?? [];
+
+  return (
+    <div
+      className="flex flex-col gap-5 p-5 overflow-y-auto h-full"
+      style={{ backgroundColor: BG_PANEL, color: TEXT_PRIMARY }}
+    >
+      {/* Header */}
+      <div>
+        <h2 className="text-lg font-semibold" style={{ color: ACCENT_TEAL }}>
+          Experiments
+        </h2>
+        <p className="text-xs mt-1" style={{ color: TEXT_SECONDARY }}>
+          Sweep parameters over seeded headless runs
+        </p>
+      </div>
+
+      {/* Sweep configuration */}
+      <ExperimentSection title="Sweep" tooltip="Each cell runs N trials on a freshly generated topology with a random proposer. Parameters not being swept use the current control panel settings.">
+        <div className="space-y-2 text-[10px]">
+          <LabeledSelect
+            label="X axis"
+            value={xParam}
+            options={SWEEP_PARAMETERS.map((p) => ({ value: p, label: SWEEP_PARAMETER_LABELS[p] }))}
+            onChange={(v) => {
+              setXParam(v as SweepParameter);
+              if (yParam === v) setYParam(null);
+            }}
+            disabled={isRunning}
+          />
+          <LabeledSelect
+            label="Y axis"
+            value={yParam ?? ''}
+            options={[
+              { value: '', label: 'None (line)' },
+              ...SWEEP_PARAMETERS.filter((p) => p !== xParam).map((p) => ({
+                value: p,
+                label: SWEEP_PARAMETER_LABELS[p],
+              })),
+            ]}
+            onChange={(v) => setYParam(v ? (v as SweepParameter) : null)}
+            disabled={isRunning}
+          />
+          <div className="flex items-center justify-between">
+            <span style={{ color: TEXT_SECONDARY }}>Trials per cell</span>
+            <span className="font-mono" style={{ color: ACCENT_TEAL }}>{trials}</span>
+          </div>
+          <input
+            type="range"
+            min={5}
+            max={200}
+            step={5}
+            value={trials}
+            onChange={(e) => setTrials(Number(e.target.value))}
+            className="w-full accent-teal-400"
+            disabled={isRunning}
+          />
+        </div>
+
+        {isRunning ? (
+          <div className="mt-3 space-y-1.5">
+            <div className="h-2 rounded-full bg-[#1e2840] overflow-hidden">
+              <div
+                className="h-full rounded-full"
+                style={{
+                  width: `${(progress.completedRuns / progress.totalRuns) * 100}%`,
+                  backgroundColor: ACCENT_TEAL,
+                }}
+              />
+            </div>
+            <div className="flex items-center justify-between text-[10px]" style={{ color: TEXT_SECONDARY }}>
+              <span className="font-mono">
+                {progress.completedRuns}/{progress.totalRuns} runs
+              </span>
+              <button
+                onClick={() => abortRef.current?.abort()}
+                className="px-2 py-0.5 rounded font-medium"
+                style={{ backgroundColor: '#FF174420', color: '#FF1744' }}
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={handleRun}
+            className="mt-3 w-full px-4 py-2 rounded text-xs font-bold transition-colors"
+            style={{ backgroundColor: `${ACCENT_TEAL}20`, color: ACCENT_TEAL, border: `1px solid ${ACCENT_TEAL}40` }}
+          >
+            Run Sweep
+          </button>
+        )}
+        {error && (
+          <p className="mt-2 text-[10px]" style={{ color: FAILURE_RED }} role="alert">
+            {error}
+          </p>
+        )}
+      </ExperimentSection>
+
+      {/* Results */}
+      {sweepResult && (
+        <ExperimentSection title="Results">
+          <div className="space-y-2">
+            <LabeledSelect
+              label="Metric"
+              value={metric}
+              options={METRIC_OPTIONS.map((m) => ({ value: m.key, label: m.label }))}
+              onChange={(v) => setMetric(v as CellMetric)}
+            />
+            <div className="flex gap-1">
+              {(['heatmap', 'line', 'table'] as ResultView[]).map((v) => (
+                <button
+                  key={v}
+                  onClick={() => setView(v)}
+                  className="flex-1 px-1 py-1 rounded text-[10px] font-medium transition-colors"
+                  style={{
+                    backgroundColor: view === v ? ACCENT_TEAL : '#1e2840',
+                    color: view === v ? '#000' : TEXT_SECONDARY,
+                  }}
+                >
+                  {v.charAt(0).toUpperCase() + v.slice(1)}
+                </button>
+              ))}
+            </div>
+            {sweepResult.config.y && view !== 'heatmap' && (
+              <LabeledSelect
+                label={SWEEP_PARAMETER_LABELS[sweepResult.config.y.param]}
+                value={String(rowIndex)}
+                options={rows.map((row, i) => ({ value: String(i), label: String(row[0]?.y) }))}
+                onChange={(v) => setRowIndex(Number(v))}
+              />
+            )}
+          </div>
+
+          <div className="mt-3">
+            {view === 'heatmap' && (
+              <Heatmap
+                rows={rows}
+                metric={metric}
+                lowerIsBetter={metricOption.lowerIsBetter}
+                xLabel={SWEEP_PARAMETER_LABELS[sweepResult.config.x.param]}
+              />
+            )}
+            {view === 'line' && (
+              <SweepLineChart row={selectedRow} metric={metric} />
+            )}
+            {view === 'table' && (
+              <SweepTable
+                row={selectedRow}
+                metric={metric}
+                xLabel={SWEEP_PARAMETER_LABELS[sweepResult.config.x.param]}
+              />
+            )}
+          </div>
+          <p className="text-[10px] mt-2" style={{ color: TEXT_SECONDARY }}>
+            {sweepResult.cells.length * (sweepResult.cells[0]?.length ?? 0)} cells ×{' '}
+            {sweepResult.config.trials} trials
+          </p>
+        </ExperimentSection>
+      )}
+    </div>
+  );
+}
+
+// ── Formatting helpers ──
+
+function formatMetric(value: number | null, metric: CellMetric): string {
+  if (value === null) return '-';
+  if (metric === 'successRate') return `${Math.round(value * 100)}%`;
+  if (metric === 'overheadRatio') return `${value.toFixed(2)}x`;
+  return `${value.toFixed(1)}ms`;
+}
+
+/**
+ * RLNC advantage for one cell, signed so that positive favors RLNC.
+ * Ratios for latency/overhead (1 - rlnc/gossip), percentage points for success.
+ */
+function rlncAdvantage(cell: SweepCell, metric: CellMetric, lowerIsBetter: boolean): number | null {
+  const r = cell.rlnc[metric];
+  const g = cell.gossipsub[metric];
+  if (r === null || g === null) return null;
+  if (!lowerIsBetter) return r - g;
+  if (g === 0) return null;
+  return 1 - r / g;
+}
+
+// ── Sub-components ──
+
+function ExperimentSection({
+  title,
+  tooltip,
+  children,
+}: {
+  title: string;
+  tooltip?: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div>
+      <h3 className="text-xs font-semibold mb-2 flex items-center gap-1" style={{ color: TEXT_PRIMARY }}>
+        {title}
+        {tooltip && (
+          <span
+            className="inline-flex items-center justify-center w-3.5 h-3.5 rounded-full text-[8px] font-bold cursor-help"
+            style={{ backgroundColor: '#1e2840', color: TEXT_SECONDARY }}
+            title={tooltip}
+          >
+            ?
+          </span>
+        )}
+      </h3>
+      {children}
+    </div>
+  );
+}
+
+function LabeledSelect({
+  label,
+  value,
+  options,
+  onChange,
+  disabled,
+}: {
+  label: string;
+  value: string;
+  options: { value: string; label: string }[];
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <label className="flex items-center justify-between gap-2 text-[10px]">
+      <span style={{ color: TEXT_SECONDARY }}>{label}</span>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+        className="rounded px-1.5 py-1 text-[10px] disabled:opacity-50"
+        style={{ backgroundColor: '#1e2840', color: TEXT_PRIMARY }}
+      >
+        {options.map((o) => (
+          <option key={o.value} value={o.value}>{o.label}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+function Heatmap({
+  rows,
+  metric,
+  lowerIsBetter,
+  xLabel,
+}: {
+  rows: SweepCell[][];
+  metric: CellMetric;
+  lowerIsBetter: boolean;
+  xLabel: string;
+}) {
+  return (
+    <div>
+      <div className="overflow-x-auto">
+        <table className="text-[8px] font-mono border-separate" style={{ borderSpacing: 2 }}>
+          <tbody>
+            {rows.map((row, yi) => (
+              <tr key={yi}>
+                {row[0]?.y !== null && (
+                  <td className="pr-1 text-right" style={{ color: TEXT_SECONDARY }}>{String(row[0]?.y)}</td>
+                )}
+                {row.map((cell, xi) => {
+                  const adv = rlncAdvantage(cell, metric, lowerIsBetter);
+                  const intensity = adv === null ? 0 : Math.min(Math.abs(adv), 1);
+                  const base = adv !== null && adv < 0 ? GOSSIP_COLOR : ACCENT_TEAL;
+                  const alpha = Math.round(20 + intensity * 200).toString(16).padStart(2, '0');
+                  return (
+                    <td
+                      key={xi}
+                      className="w-6 h-6 text-center rounded-sm"
+                      style={{ backgroundColor: adv === null ? '#1e2840' : `${base}${alpha}`, color: TEXT_PRIMARY }}
+                      title={`${String(cell.x)}${cell.y !== null ? ` / ${String(cell.y)}` : ''}\nmump2p: ${formatMetric(cell.rlnc[metric], metric)}\nGossipSub: ${formatMetric(cell.gossipsub[metric], metric)}`}
+                    >
+                      {adv === null ? '-' : Math.round(adv * 100)}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+            <tr>
+              {rows[0]?.[0]?.y !== null && <td />}
+              {(rows[0] ?? []).map((cell, xi) => (
+                <td key={xi} className="text-center" style={{ color: TEXT_SECONDARY }}>{String(cell.x)}</td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+      <p className="text-[10px] mt-1.5" style={{ color: TEXT_SECONDARY }}>
+        {xLabel} →. Cells show mump2p advantage in{' '}
+        {lowerIsBetter ? '% vs GossipSub' : 'percentage points'};{' '}
+        <span style={{ color: ACCENT_TEAL }}>teal</span> favors mump2p,{' '}
+        <span style={{ color: GOSSIP_COLOR }}>orange</span> favors GossipSub.
+      </p>
+    </div>
+  );
+}
+
+function SweepLineChart({ row, metric }: { row: SweepCell[]; metric: CellMetric }) {
+  const scale = metric === 'successRate' ? 100 : 1;
+  const data = row.map((cell) => ({
+    x: String(cell.x),
+    rlnc: cell.rlnc[metric] !== null ? cell.rlnc[metric]! * scale : null,
+    gossipsub: cell.gossipsub[metric] !== null ? cell.gossipsub[metric]! * scale : null,
+  }));
+
+  return (
+    <div style={{ width: '100%', height: 180 }}>
+      <ResponsiveContainer>
+        <LineChart data={data} margin={{ top: 5, right: 5, bottom: 0, left: -20 }}>
+          <CartesianGrid stroke="#1e2840" />
+          <XAxis dataKey="x" tick={{ fontSize: 9, fill: TEXT_SECONDARY }} />
+          <YAxis tick={{ fontSize: 9, fill: TEXT_SECONDARY }} />
+          <Tooltip
+            contentStyle={{ backgroundColor: BG_PANEL, border: '1px solid #2a3450', fontSize: 10 }}
+            labelStyle={{ color: TEXT_PRIMARY }}
+          />
+          <Line type="monotone" dataKey="rlnc" name="mump2p" stroke={RECONSTRUCTED_GREEN} dot={{ r: 2 }} connectNulls />
+          <Line type="monotone" dataKey="gossipsub" name="GossipSub" stroke={GOSSIP_COLOR} dot={{ r: 2 }} connectNulls />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+function SweepTable({ row, metric, xLabel }: { row: SweepCell[]; metric: CellMetric; xLabel: string }) {
+  return (
+    <div className="rounded border border-[#2a3450] overflow-hidden">
+      <table className="w-full text-[10px]">
+        <thead>
+          <tr className="border-b border-[#2a3450]">
+            <th className="text-left p-2 font-medium" style={{ color: TEXT_SECONDARY }}>{xLabel}</th>
+            <th className="text-right p-2 font-medium" style={{ color: RECONSTRUCTED_GREEN }}>mump2p</th>
+            <th className="text-right p-2 font-medium" style={{ color: GOSSIP_COLOR }}>GossipSub</th>
+          </tr>
+        </thead>
+        <tbody>
+          {row.map((cell) => (
+            <tr key={String(cell.x)} className="border-b border-[#2a3450]">
+              <td className="p-2" style={{ color: TEXT_SECONDARY }}>{String(cell.x)}</td>
+              <td className="text-right p-2 font-mono">{formatMetric(cell.rlnc[metric], metric)}</td>
+              <td className="text-right p-2 font-mono">{formatMetric(cell.gossipsub[metric], metric)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
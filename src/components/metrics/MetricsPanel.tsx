@@ -1,11 +1,6 @@
 'use client';
 
-import { useDashboardStore } from '@/store';
-import {
-  getRLNCRank,
-  isRLNCReconstructed,
-  hasGossipMessage,
-} from '@/simulation/engine';
+import { useDashboardStore, dashboardEngine } from '@/store';
 import {
   BG_PANEL,
   TEXT_PRIMARY,
@@ -15,12 +10,15 @@ import {
   GOSSIP_COLOR,
 } from '@/constants/colors';
 import { NETWORK_PRESETS } from '@/constants/defaults';
+import { percentile } from '@/lib/stats';
 
 export default function MetricsPanel() {
   const engineMetrics = useDashboardStore((s) => s.engineMetrics);
   const running = useDashboardStore((s) => s.running);
   const simulationDone = useDashboardStore((s) => s.simulationDone);
   const publisherNodeId = useDashboardStore((s) => s.publisherNodeId);
+  const publisherNodeIds = useDashboardStore((s) => s.publisherNodeIds);
+  const nodes = useDashboardStore((s) => s.nodes);
   const subscriberNodeIds = useDashboardStore((s) => s.subscriberNodeIds);
   const k = useDashboardStore((s) => s.k);
   const simTime = useDashboardStore((s) => s.simTime);
@@ -32,10 +30,10 @@ export default function MetricsPanel() {
 
   // Compute success rates from engine state
   const rlncReconstructedCount = subscriberNodeIds.filter((id) =>
-    isRLNCReconstructed(id),
+    dashboardEngine.isRLNCReconstructed(id),
   ).length;
   const gossipDeliveredCount = subscriberNodeIds.filter((id) =>
-    hasGossipMessage(id),
+    dashboardEngine.hasGossipMessage(id),
   ).length;
   const totalSubscribers = subscriberNodeIds.length;
 
@@ -57,6 +55,54 @@ export default function MetricsPanel() {
   const gossipUseful = engineMetrics?.gossipsub.usefulTransmissions ?? 0;
   const gossipDuplicates = engineMetrics?.gossipsub.duplicates ?? 0;
 
+  const rlncDropped = engineMetrics?.rlnc.droppedTransmissions ?? 0;
+  const gossipDropped = engineMetrics?.gossipsub.droppedTransmissions ?? 0;
+  const rlncBursts = engineMetrics?.rlnc.lossBursts ?? 0;
+  const gossipBursts = engineMetrics?.gossipsub.lossBursts ?? 0;
+
+  const rlncBytesSent = engineMetrics?.rlnc.bytesSent ?? 0;
+  const gossipBytesSent = engineMetrics?.gossipsub.bytesSent ?? 0;
+  const rlncBytesReceived = engineMetrics?.rlnc.bytesReceived ?? 0;
+  const gossipBytesReceived = engineMetrics?.gossipsub.bytesReceived ?? 0;
+  const rlncDelivered = engineMetrics?.rlnc.deliveredNodes.length ?? 0;
+  const gossipDelivered = engineMetrics?.gossipsub.deliveredNodes.length ?? 0;
+
+  // Share of relay-recoded shards that raised the receiver's rank
+  const rlncRecoded = engineMetrics?.rlnc.recodedTransmissions ?? 0;
+  const rlncRecodedUseful = engineMetrics?.rlnc.innovativeRecodedTransmissions ?? 0;
+  // Of the shards that reached a node still decoding, how many added nothing
+  const rlncDependent = engineMetrics?.rlnc.linearlyDependent ?? 0;
+  const rlncDecodingArrivals = rlncDependent + (engineMetrics?.rlnc.usefulTransmissions ?? 0);
+  const rlncInOrderSymbols = engineMetrics?.rlnc.inOrderSymbols ?? 0;
+  const rlncInOrderLatency = rlncInOrderSymbols > 0
+    ? (engineMetrics?.rlnc.inOrderLatencyTotalMs ?? 0) / rlncInOrderSymbols
+    : null;
+
+  // Per-message latency from its own publish, and stream throughput
+  const messages = engineMetrics?.messages ?? [];
+  const messageLatency = (completedAt: number | null, publishAt: number) =>
+    completedAt !== null ? `${(completedAt - publishAt).toFixed(1)}ms` : '-';
+  const streamThroughput = (protocol: 'rlnc' | 'gossipsub') => {
+    const done = messages.filter((m) => m[protocol].completedAt !== null);
+    if (done.length === 0) return '-';
+    const span = Math.max(...done.map((m) => m[protocol].completedAt!)) - messages[0].publishAt;
+    return span > 0 ? `${((done.length * 1000) / span).toFixed(1)}/s` : '-';
+  };
+
+  // Per-publisher delivery: time to land all of its messages, or the share delivered so far
+  const publisherDelivery = (publisherId: string, protocol: 'rlnc' | 'gossipsub') => {
+    const own = messages.filter((m) => m.publisherId === publisherId);
+    if (own.length === 0) return '-';
+    if (own.every((m) => m[protocol].completedAt !== null)) {
+      const span = Math.max(...own.map((m) => m[protocol].completedAt!)) - own[0].publishAt;
+      return `${span.toFixed(1)}ms`;
+    }
+    const delivered = own.reduce((sum, m) => sum + m[protocol].delivered, 0);
+    const subscribers = own.reduce((sum, m) => sum + m[protocol].subscribers, 0);
+    return `${Math.round((delivered / Math.max(subscribers, 1)) * 100)}%`;
+  };
+  const nodeLabel = (id: string) => nodes.find((n) => n.id === id)?.label ?? id;
+
   const rlncOverhead =
     rlncUseful > 0 ? (rlncTotal / rlncUseful).toFixed(2) : '-';
   const gossipOverhead =
@@ -115,6 +161,45 @@ export default function MetricsPanel() {
         })()}
       </MetricSection>
 
+      {/* Publishers */}
+      {publisherNodeIds.length > 1 && (
+        <MetricSection title="Publishers" tooltip="Time from each publisher's first publish until all of its messages reached every subscriber, or the share of deliveries so far. Concurrent publishers contend for the same links, so each one's messages slow the others down.">
+          <div className="space-y-2">
+            {publisherNodeIds.map((id) => (
+              <MetricRow
+                key={id}
+                label={id === publisherNodeId ? `${nodeLabel(id)} (proposer)` : nodeLabel(id)}
+                rlnc={publisherDelivery(id, 'rlnc')}
+                gossip={publisherDelivery(id, 'gossipsub')}
+              />
+            ))}
+          </div>
+        </MetricSection>
+      )}
+
+      {/* Message Stream */}
+      {messages.length > 1 && (
+        <MetricSection title="Message Stream" tooltip="Latency of each message from its own publish time to its last subscriber. Messages share links and CPUs, so a slow message holds up those behind it (head-of-line blocking). Throughput counts fully delivered messages over the time since the first publish.">
+          <div className="space-y-2">
+            {messages.map((m) => (
+              <MetricRow
+                key={m.id}
+                label={publisherNodeIds.length > 1
+                  ? `Msg ${m.id + 1} · ${nodeLabel(m.publisherId)} (+${m.publishAt}ms)`
+                  : `Msg ${m.id + 1} (+${m.publishAt}ms)`}
+                rlnc={messageLatency(m.rlnc.completedAt, m.publishAt)}
+                gossip={messageLatency(m.gossipsub.completedAt, m.publishAt)}
+              />
+            ))}
+            <MetricRow
+              label="Throughput"
+              rlnc={streamThroughput('rlnc')}
+              gossip={streamThroughput('gossipsub')}
+            />
+          </div>
+        </MetricSection>
+      )}
+
       {/* Success Rate */}
       <MetricSection title="Delivery Success">
         <div className="flex gap-4">
@@ -131,10 +216,20 @@ export default function MetricsPanel() {
             detail={`${gossipDeliveredCount}/${totalSubscribers}`}
           />
         </div>
+        {engineMetrics && engineMetrics.rlnc.verifiedNodes + engineMetrics.rlnc.decodeFailures > 0 && (
+          <p
+            className="text-[10px] mt-2"
+            style={{ color: engineMetrics.rlnc.decodeFailures > 0 ? '#FF1744' : TEXT_SECONDARY }}
+            title="Each mump2p subscriber decodes the coded shards it received and compares the bytes with the published payload."
+          >
+            Payload verified on {engineMetrics.rlnc.verifiedNodes}/{engineMetrics.rlnc.verifiedNodes + engineMetrics.rlnc.decodeFailures} decodes
+            {engineMetrics.rlnc.decodeFailures > 0 && ` · ${engineMetrics.rlnc.decodeFailures} decode failures`}
+          </p>
+        )}
       </MetricSection>
 
       {/* Bandwidth */}
-      <MetricSection title="Bandwidth" tooltip="Overhead ratio = total transmissions / useful transmissions. RLNC's algebraic redundancy is more efficient than GossipSub's duplicate-heavy approach.">
+      <MetricSection title="Bandwidth" tooltip="Overhead ratio = total transmissions / useful transmissions. Bytes on the wire weigh each transmission by its size: a full block for GossipSub, blockSize/k plus a coefficient header for an RLNC shard. Non-subscriber rows count the bytes and CPU time spent by nodes relaying messages on topics they do not subscribe to.">
         <div className="space-y-2">
           <MetricRow
             label="Total Transmissions"
@@ -151,11 +246,97 @@ export default function MetricsPanel() {
             rlnc={`${rlncOverhead}x`}
             gossip={`${gossipOverhead}x`}
           />
+          <MetricRow
+            label="Bytes on Wire"
+            rlnc={formatBytes(rlncBytesSent)}
+            gossip={formatBytes(gossipBytesSent)}
+          />
+          <MetricRow
+            label="Bytes Received"
+            rlnc={formatBytes(rlncBytesReceived)}
+            gossip={formatBytes(gossipBytesReceived)}
+          />
+          <MetricRow
+            label="Bytes / Delivery"
+            rlnc={rlncDelivered > 0 ? formatBytes(rlncBytesSent / rlncDelivered) : '-'}
+            gossip={gossipDelivered > 0 ? formatBytes(gossipBytesSent / gossipDelivered) : '-'}
+          />
           <MetricRow
             label="Duplicates"
             rlnc="-"
             gossip={String(gossipDuplicates)}
           />
+          <MetricRow
+            label="Relay Innovation"
+            rlnc={rlncRecoded > 0 ? `${Math.round((rlncRecodedUseful / rlncRecoded) * 100)}%` : '-'}
+            gossip="-"
+          />
+          <MetricRow
+            label="Linear Dependence"
+            rlnc={rlncDecodingArrivals > 0 ? `${((rlncDependent / rlncDecodingArrivals) * 100).toFixed(1)}%` : '-'}
+            gossip="-"
+          />
+          <MetricRow
+            label="In-Order Latency"
+            rlnc={rlncInOrderLatency !== null ? `${rlncInOrderLatency.toFixed(1)}ms` : '-'}
+            gossip="-"
+          />
+          <MetricRow
+            label="Rank Feedback"
+            rlnc={String(engineMetrics?.rlnc.feedbackMessages ?? 0)}
+            gossip="-"
+          />
+          <MetricRow
+            label="Suppressed Shards"
+            rlnc={String(engineMetrics?.rlnc.suppressedShards ?? 0)}
+            gossip="-"
+          />
+          <MetricRow
+            label="IHAVE / IWANT"
+            rlnc="-"
+            gossip={String(engineMetrics?.gossipsub.controlMessages ?? 0)}
+          />
+          <MetricRow
+            label="Non-subscriber Relay"
+            rlnc={formatBytes(engineMetrics?.rlnc.nonSubscriberBytes ?? 0)}
+            gossip={formatBytes(engineMetrics?.gossipsub.nonSubscriberBytes ?? 0)}
+          />
+          <MetricRow
+            label="CPU Time"
+            rlnc={`${(engineMetrics?.rlnc.cpuTimeMs ?? 0).toFixed(1)}ms`}
+            gossip={`${(engineMetrics?.gossipsub.cpuTimeMs ?? 0).toFixed(1)}ms`}
+          />
+          <MetricRow
+            label="Non-subscriber CPU"
+            rlnc={`${(engineMetrics?.rlnc.nonSubscriberCpuMs ?? 0).toFixed(1)}ms`}
+            gossip={`${(engineMetrics?.gossipsub.nonSubscriberCpuMs ?? 0).toFixed(1)}ms`}
+          />
+          <MetricRow
+            label="Max Queue Delay"
+            rlnc={`${(engineMetrics?.rlnc.maxQueueDelayMs ?? 0).toFixed(1)}ms`}
+            gossip={`${(engineMetrics?.gossipsub.maxQueueDelayMs ?? 0).toFixed(1)}ms`}
+          />
+        </div>
+      </MetricSection>
+
+      {/* Loss */}
+      <MetricSection title="Packet Loss" tooltip="Drops seen on the wire. A burst is a run of consecutive drops on one link; bursty (Gilbert–Elliott) links produce fewer, longer bursts than Bernoulli at the same average loss.">
+        <div className="space-y-2">
+          <MetricRow
+            label="Dropped"
+            rlnc={String(rlncDropped)}
+            gossip={String(gossipDropped)}
+          />
+          <MetricRow
+            label="Loss Bursts"
+            rlnc={String(rlncBursts)}
+            gossip={String(gossipBursts)}
+          />
+          <MetricRow
+            label="Longest Burst"
+            rlnc={String(engineMetrics?.rlnc.maxLossBurst ?? 0)}
+            gossip={String(engineMetrics?.gossipsub.maxLossBurst ?? 0)}
+          />
         </div>
       </MetricSection>
 
@@ -164,13 +345,15 @@ export default function MetricsPanel() {
         <MetricSection title="Node Status">
           <div className="space-y-1.5 max-h-48 overflow-y-auto">
             {subscriberNodeIds.map((id) => {
-              const rank = getRLNCRank(id);
-              const reconstructed = isRLNCReconstructed(id);
-              const hasMsg = hasGossipMessage(id);
+              const rank = dashboardEngine.getRLNCRank(id);
+              const reconstructed = dashboardEngine.isRLNCReconstructed(id);
+              const hasMsg = dashboardEngine.hasGossipMessage(id);
+              const bytes = dashboardEngine.getNodeBytes(id);
               return (
                 <div
                   key={id}
                   className="flex items-center gap-2 text-[10px]"
+                  title={`mump2p sent ${formatBytes(bytes.rlnc.sent)} / received ${formatBytes(bytes.rlnc.received)}\nGossipSub sent ${formatBytes(bytes.gossipsub.sent)} / received ${formatBytes(bytes.gossipsub.received)}`}
                 >
                   <span className="w-12 font-mono" style={{ color: TEXT_SECONDARY }}>
                     {id.replace('node-', 'N')}
@@ -243,6 +426,12 @@ export default function MetricsPanel() {
 
 // ── Sub-components ──
 
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)}KB`;
+  return `${Math.round(bytes)}B`;
+}
+
 function MetricSection({
   title,
   tooltip,
@@ -394,17 +583,6 @@ function MetricRow({
   );
 }
 
-// ── Percentile helper ──
-
-function percentile(sorted: number[], p: number): number {
-  if (sorted.length === 0) return 0;
-  const idx = (p / 100) * (sorted.length - 1);
-  const lo = Math.floor(idx);
-  const hi = Math.ceil(idx);
-  if (lo === hi) return sorted[lo];
-  return sorted[lo] + (sorted[hi] - sorted[lo]) * (idx - lo);
-}
-
 // ── Live Comparison Table ──
 
 function LiveComparisonTable({
@@ -1,11 +1,43 @@
-import type { NetworkPresetConfig } from '@/simulation/types';
+import type { NetworkPresetConfig, Topic, TopologyOptions, TopologyType } from '@/simulation/types';
+import type { FieldName } from '@/lib/galoisField';
 
 export const DEFAULT_NODE_COUNT = 6;
 export const DEFAULT_PACKET_LOSS = 0;
 export const DEFAULT_K = 4;
 export const DEFAULT_REDUNDANCY_FACTOR = 1.33;
 export const DEFAULT_GOSSIP_MESH_DEGREE = 6;
+export const TOPOLOGY_LABELS: Record<TopologyType, string> = {
+  mesh: 'Mesh',
+  ring: 'Ring',
+  star: 'Star',
+  random: 'Random',
+  kademlia: 'Kademlia',
+  'erdos-renyi': 'Erdős–Rényi',
+  'scale-free': 'Scale-free',
+  'small-world': 'Small World',
+};
+export const DEFAULT_TOPOLOGY_OPTIONS: TopologyOptions = {
+  targetPeers: 4,
+  erdosRenyiP: 0.2,
+  rewireProbability: 0.1,
+  geo: false,
+};
 export const DEFAULT_SPEED = 1;
+export const DEFAULT_SEED = 'mump2p';
+export const DEFAULT_BLOCK_SIZE_KB = 128;
+export const DEFAULT_RLNC_FIELD: FieldName = 'gf256';
+export const DEFAULT_RLNC_WINDOW_SIZE = 4;
+// One message per slot; raise to stream e.g. a block plus blob sidecars
+export const DEFAULT_MESSAGE_COUNT = 1;
+export const DEFAULT_MESSAGE_INTERVAL_MS = 50;
+
+export const TOPIC_LABELS: Record<Topic, string> = {
+  beacon_block: 'Blocks',
+  blob_sidecar: 'Blobs',
+};
+// Gilbert–Elliott: ~9% of packets in the bad state, mean bad run ~3.3 packets
+export const DEFAULT_GE_P_GOOD_TO_BAD = 0.03;
+export const DEFAULT_GE_P_BAD_TO_GOOD = 0.3;
 
 export const NETWORK_PRESETS: Record<string, NetworkPresetConfig> = {
   ethereum: {
@@ -14,6 +46,7 @@ export const NETWORK_PRESETS: Record<string, NetworkPresetConfig> = {
     latencyStdDev: 10,
     latencyMin: 5,
     latencyMax: 100,
+    bandwidthMbps: 50,
     slotTimeMs: 12_000,
     processingDelayRLNC: 0.5,
     processingDelayGossip: 1,
@@ -27,6 +60,7 @@ export const NETWORK_PRESETS: Record<string, NetworkPresetConfig> = {
     latencyStdDev: 5,
     latencyMin: 3,
     latencyMax: 50,
+    bandwidthMbps: 1000,
     slotTimeMs: 400,
     processingDelayRLNC: 0.5,
     processingDelayGossip: 1,
@@ -40,6 +74,7 @@ export const NETWORK_PRESETS: Record<string, NetworkPresetConfig> = {
     latencyStdDev: 8,
     latencyMin: 3,
     latencyMax: 100,
+    bandwidthMbps: 100,
     slotTimeMs: 1000,
     processingDelayRLNC: 0.5,
     processingDelayGossip: 1,
@@ -1,16 +1,16 @@
 'use client';
 
 import { useEffect } from 'react';
-import { useDashboardStore } from '@/store';
-import { clearEngine } from '@/simulation/engine';
+import { useDashboardStore, dashboardEngine } from '@/store';
 
 /**
  * Global keyboard shortcuts:
  *   Space — toggle play/pause
  *   R     — reset simulation
  *   S     — step forward (when paused)
+ *   B     — step backward to the previous packet arrival
  */
-export function useKeyboardShortcuts(stepForward: () => void) {
+export function useKeyboardShortcuts(stepForward: () => void, stepBackward: () => void) {
   useEffect(() => {
     const handler = (e: KeyboardEvent) => {
       // Don't trigger when typing in form fields
@@ -36,7 +36,7 @@ export function useKeyboardShortcuts(stepForward: () => void) {
         }
         case 'KeyR': {
           e.preventDefault();
-          clearEngine();
+          dashboardEngine.clear();
           store.resetSimulation();
           break;
         }
@@ -47,10 +47,15 @@ export function useKeyboardShortcuts(stepForward: () => void) {
           }
           break;
         }
+        case 'KeyB': {
+          e.preventDefault();
+          if (store.publisherNodeId) stepBackward();
+          break;
+        }
       }
     };
 
     document.addEventListener('keydown', handler);
     return () => document.removeEventListener('keydown', handler);
-  }, [stepForward]);
+  }, [stepForward, stepBackward]);
 }
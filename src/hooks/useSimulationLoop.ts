@@ -1,14 +1,7 @@
 'use client';
 
 import { useCallback, useEffect, useRef } from 'react';
-import { useDashboardStore } from '@/store';
-import {
-  initPropagation,
-  advanceTo,
-  hasRemainingEvents,
-  clearEngine,
-  nextEventTime,
-} from '@/simulation/engine';
+import { useDashboardStore, dashboardEngine, engineInitParams, keepHorizonTrace } from '@/store';
 import { NETWORK_PRESETS } from '@/constants/defaults';
 
 /**
@@ -43,14 +36,7 @@ export function useSimulationLoop() {
 
     // Initialize engine on first tick after startPropagation
     if (!initializedRef.current) {
-      initPropagation({
-        publisherNodeId: store.publisherNodeId,
-        nodes: store.nodes,
-        edges: store.edges,
-        k: store.k,
-        redundancyFactor: store.redundancyFactor,
-        packetLoss: store.packetLoss,
-      });
+      dashboardEngine.init(engineInitParams(store));
       initializedRef.current = true;
       lastFrameRef.current = timestamp;
     }
@@ -63,11 +49,7 @@ export function useSimulationLoop() {
     const newSimTime = store.simTime + simDelta;
 
     // Process engine events up to newSimTime
-    const { newParticles, metrics } = advanceTo(
-      newSimTime,
-      store.packetLoss,
-      store.nodes,
-    );
+    const { newParticles, metrics } = dashboardEngine.advanceTo(newSimTime);
 
     // Update particle progress based on simulated time
     const allParticles = [...store.particles, ...newParticles];
@@ -86,7 +68,7 @@ export function useSimulationLoop() {
 
     // Check completion conditions
     const bothDone = metrics.rlnc.allDone && metrics.gossipsub.allDone;
-    const noMoreEvents = !hasRemainingEvents();
+    const noMoreEvents = !dashboardEngine.hasRemainingEvents();
     const noMoreParticles = updatedParticles.length === 0;
 
     // Get attestation deadline from preset
@@ -136,9 +118,8 @@ export function useSimulationLoop() {
           autoRestartRef.current = null;
           const state = useDashboardStore.getState();
           if (state.comparisonMode !== 'continuous' || !state.simulationDone) return;
-          clearEngine();
-          const randomIdx = Math.floor(Math.random() * state.nodes.length);
-          state.startPropagation(state.nodes[randomIdx].id);
+          dashboardEngine.clear();
+          state.startNextSlot();
         }, 500); // Fast restart for continuous mode
       }
 
@@ -155,27 +136,16 @@ export function useSimulationLoop() {
 
     // Initialize if needed
     if (!initializedRef.current) {
-      initPropagation({
-        publisherNodeId: store.publisherNodeId,
-        nodes: store.nodes,
-        edges: store.edges,
-        k: store.k,
-        redundancyFactor: store.redundancyFactor,
-        packetLoss: store.packetLoss,
-      });
+      dashboardEngine.init(engineInitParams(store));
       initializedRef.current = true;
     }
 
-    const nextTime = nextEventTime();
+    const nextTime = dashboardEngine.nextEventTime();
     if (nextTime === null) return;
 
     const targetSimTime = nextTime + 0.001;
 
-    const { newParticles, metrics } = advanceTo(
-      targetSimTime,
-      store.packetLoss,
-      store.nodes,
-    );
+    const { newParticles, metrics } = dashboardEngine.advanceTo(targetSimTime);
 
     const allParticles = [...store.particles, ...newParticles];
     const updatedParticles = allParticles
@@ -190,12 +160,46 @@ export function useSimulationLoop() {
     store.updateParticles(updatedParticles);
     store.pushEngineMetrics(metrics);
 
-    if (metrics.rlnc.allDone && metrics.gossipsub.allDone && !hasRemainingEvents()) {
+    if (metrics.rlnc.allDone && metrics.gossipsub.allDone && !dashboardEngine.hasRemainingEvents()) {
       store.setSimulationDone(true);
       initializedRef.current = false;
     }
   }, []);
 
+  // Seek: replay the run from the start up to `targetSimTime`. Runs are
+  // seeded and their inputs locked until reset, so the replay lands on
+  // exactly the state the run had then.
+  const seekTo = useCallback((targetSimTime: number) => {
+    const store = useDashboardStore.getState();
+    if (!store.publisherNodeId) return;
+    cancelAutoRestart();
+
+    keepHorizonTrace(store);
+    dashboardEngine.init(engineInitParams(store));
+    const { newParticles, metrics } = dashboardEngine.advanceTo(targetSimTime);
+    const particles = newParticles
+      .map((p) => ({ ...p, progress: Math.min(1, (targetSimTime - p.startTime) / p.duration) }))
+      .filter((p) => p.progress < 1);
+
+    store.setSimTime(targetSimTime);
+    store.updateParticles(particles);
+    store.pushEngineMetrics(metrics);
+    // A finished run's next start must re-initialize for the new publisher
+    initializedRef.current = !store.simulationDone;
+  }, [cancelAutoRestart]);
+
+  // Step backward: pause and seek to just after the previous recorded arrival
+  const stepBackward = useCallback(() => {
+    const store = useDashboardStore.getState();
+    if (!store.publisherNodeId) return;
+    if (store.running) store.setRunning(false);
+
+    const trace = dashboardEngine.getTrace();
+    let i = trace.length - 1;
+    while (i >= 0 && trace[i].time + 0.001 >= store.simTime - 1e-6) i--;
+    seekTo(i >= 0 ? trace[i].time + 0.001 : 0);
+  }, [seekTo]);
+
   const running = useDashboardStore((s) => s.running);
   const publisherNodeId = useDashboardStore((s) => s.publisherNodeId);
 
@@ -217,12 +221,12 @@ export function useSimulationLoop() {
   useEffect(() => {
     return () => {
       cancelAutoRestart();
-      clearEngine();
+      dashboardEngine.clear();
       if (rafRef.current !== null) {
         cancelAnimationFrame(rafRef.current);
       }
     };
   }, [cancelAutoRestart]);
 
-  return { stepForward, cancelAutoRestart };
+  return { stepForward, stepBackward, seekTo, cancelAutoRestart };
 }
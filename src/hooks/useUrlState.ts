@@ -2,7 +2,16 @@
 
 import { useEffect, useRef } from 'react';
 import { useDashboardStore } from '@/store';
-import type { ComparisonMode, NetworkPreset, TopologyType } from '@/simulation/types';
+import type {
+  ComparisonMode,
+  LossModelType,
+  NetworkPreset,
+  RlncCodingMode,
+  TopologyOptions,
+  TopologyType,
+} from '@/simulation/types';
+import { FIELDS, type FieldName } from '@/lib/galoisField';
+import { TOPOLOGY_LABELS } from '@/constants/defaults';
 
 /**
  * Syncs simulation parameters with URL query string.
@@ -10,7 +19,8 @@ import type { ComparisonMode, NetworkPreset, TopologyType } from '@/simulation/t
  * On mount: reads URL params and applies them to the store.
  * On store change: updates URL (replaceState, no history pollution).
  *
- * Supported params: nodes, loss, preset, mode, topo, k, speed
+ * Supported params: seed, nodes, loss, lossModel, geGB, geBG, preset, bw, block,
+ * mode, topo, peers, erp, beta, geo, k, field, sys, density, coding, win, fb, D, pubs, msgs, gap, speed
  */
 export function useUrlState() {
   const hasInitialized = useRef(false);
@@ -25,6 +35,10 @@ export function useUrlState() {
 
     const store = useDashboardStore.getState();
 
+    // Seed first: the topology setters below regenerate from it
+    const seed = params.get('seed')?.trim();
+    if (seed && seed.length <= 64) store.setSeed(seed);
+
     const nodes = params.get('nodes');
     if (nodes) {
       const n = parseInt(nodes, 10);
@@ -37,27 +51,117 @@ export function useUrlState() {
       if (l >= 0 && l <= 50) store.setPacketLoss(l);
     }
 
+    const geGB = params.get('geGB');
+    if (geGB) {
+      const p = parseFloat(geGB);
+      if (p >= 0.01 && p <= 0.5) store.setGilbertElliott({ pGoodToBad: p });
+    }
+
+    const geBG = params.get('geBG');
+    if (geBG) {
+      const p = parseFloat(geBG);
+      if (p >= 0.05 && p <= 1) store.setGilbertElliott({ pBadToGood: p });
+    }
+
+    const lossModel = params.get('lossModel');
+    if (lossModel && ['bernoulli', 'gilbert-elliott'].includes(lossModel)) {
+      store.setLossModelType(lossModel as LossModelType);
+    }
+
     const preset = params.get('preset');
     if (preset && ['ethereum', 'solana', 'custom'].includes(preset)) {
       store.setNetworkPreset(preset as NetworkPreset);
     }
 
+    // After preset: switching preset resets bandwidth to its default
+    const bw = params.get('bw');
+    if (bw) {
+      const b = parseInt(bw, 10);
+      if (b >= 5 && b <= 1000) store.setBandwidth(b);
+    }
+
+    const block = params.get('block');
+    if (block) {
+      const b = parseInt(block, 10);
+      if (b >= 16 && b <= 2048) store.setBlockSize(b);
+    }
+
     const mode = params.get('mode');
     if (mode && ['click', 'continuous'].includes(mode)) {
       store.setComparisonMode(mode as ComparisonMode);
     }
 
     const topo = params.get('topo');
-    if (topo && ['mesh', 'ring', 'star', 'random'].includes(topo)) {
+    if (topo && Object.keys(TOPOLOGY_LABELS).includes(topo)) {
       store.setTopology(topo as TopologyType);
     }
 
+    const topologyOptions: Partial<TopologyOptions> = {};
+    const peers = parseInt(params.get('peers') ?? '', 10);
+    if (peers >= 2 && peers <= 12) topologyOptions.targetPeers = peers;
+    const erp = parseFloat(params.get('erp') ?? '');
+    if (erp > 0 && erp <= 1) topologyOptions.erdosRenyiP = erp;
+    const beta = parseFloat(params.get('beta') ?? '');
+    if (beta >= 0 && beta <= 1) topologyOptions.rewireProbability = beta;
+    if (params.get('geo') === '1') topologyOptions.geo = true;
+    if (Object.keys(topologyOptions).length > 0) store.setTopologyOptions(topologyOptions);
+
     const k = params.get('k');
     if (k) {
       const kVal = parseInt(k, 10);
       if (kVal >= 2 && kVal <= 16) store.setK(kVal);
     }
 
+    const field = params.get('field');
+    if (field && Object.keys(FIELDS).includes(field)) store.setRlncField(field as FieldName);
+
+    const sys = params.get('sys');
+    if (sys === '1' || sys === '0') store.setRlncSystematic(sys === '1');
+
+    const density = params.get('density');
+    if (density) {
+      const d = parseFloat(density);
+      if (d >= 0.1 && d <= 1) store.setRlncCodingDensity(d);
+    }
+
+    const coding = params.get('coding');
+    if (coding && ['block', 'sliding-window'].includes(coding)) {
+      store.setRlncCodingMode(coding as RlncCodingMode);
+    }
+
+    const win = params.get('win');
+    if (win) {
+      const w = parseInt(win, 10);
+      if (w >= 1 && w <= 16) store.setRlncWindowSize(w);
+    }
+
+    const fb = params.get('fb');
+    if (fb === '1' || fb === '0') store.setRlncFeedback(fb === '1');
+
+    const d = params.get('D');
+    if (d) {
+      const dVal = parseInt(d, 10);
+      if (dVal >= 2 && dVal <= 12) store.setGossipMeshDegree(dVal);
+    }
+
+    const pubs = params.get('pubs');
+    if (pubs) {
+      const p = parseInt(pubs, 10);
+      if (p >= 1 && p <= 8) store.setPublisherCount(p);
+    }
+
+    const msgs = params.get('msgs');
+    if (msgs) {
+      const m = parseInt(msgs, 10);
+      if (m >= 1 && m <= 16) store.setMessageCount(m);
+    }
+
+    const gap = params.get('gap');
+    if (gap) {
+      const g = parseInt(gap, 10);
+      if (g >= 0 && g <= 500) store.setMessageInterval(g);
+    }
+
     const speed = params.get('speed');
     if (speed) {
       const s = parseFloat(speed);
@@ -68,25 +172,65 @@ export function useUrlState() {
   // Write to URL on relevant store changes
   const nodeCount = useDashboardStore((s) => s.nodeCount);
   const packetLoss = useDashboardStore((s) => s.packetLoss);
+  const lossModelType = useDashboardStore((s) => s.lossModelType);
+  const gilbertElliott = useDashboardStore((s) => s.gilbertElliott);
   const networkPreset = useDashboardStore((s) => s.networkPreset);
+  const bandwidthMbps = useDashboardStore((s) => s.bandwidthMbps);
+  const blockSizeKB = useDashboardStore((s) => s.blockSizeKB);
   const comparisonMode = useDashboardStore((s) => s.comparisonMode);
   const topology = useDashboardStore((s) => s.topology);
+  const topologyOptions = useDashboardStore((s) => s.topologyOptions);
   const k = useDashboardStore((s) => s.k);
+  const rlncField = useDashboardStore((s) => s.rlncField);
+  const rlncSystematic = useDashboardStore((s) => s.rlncSystematic);
+  const rlncCodingDensity = useDashboardStore((s) => s.rlncCodingDensity);
+  const rlncCodingMode = useDashboardStore((s) => s.rlncCodingMode);
+  const rlncWindowSize = useDashboardStore((s) => s.rlncWindowSize);
+  const rlncFeedback = useDashboardStore((s) => s.rlncFeedback);
+  const gossipMeshDegree = useDashboardStore((s) => s.gossipMeshDegree);
+  const publisherCount = useDashboardStore((s) => s.publisherCount);
+  const messageCount = useDashboardStore((s) => s.messageCount);
+  const messageIntervalMs = useDashboardStore((s) => s.messageIntervalMs);
   const speed = useDashboardStore((s) => s.speed);
+  const seed = useDashboardStore((s) => s.seed);
 
   useEffect(() => {
     if (typeof window === 'undefined') return;
 
     const params = new URLSearchParams();
+    params.set('seed', seed);
     params.set('nodes', String(nodeCount));
     params.set('loss', String(packetLoss));
+    params.set('lossModel', lossModelType);
+    if (lossModelType === 'gilbert-elliott') {
+      params.set('geGB', String(gilbertElliott.pGoodToBad));
+      params.set('geBG', String(gilbertElliott.pBadToGood));
+    }
     params.set('preset', networkPreset);
+    params.set('bw', String(bandwidthMbps));
+    params.set('block', String(blockSizeKB));
     params.set('mode', comparisonMode);
     params.set('topo', topology);
+    if (['random', 'kademlia', 'scale-free', 'small-world'].includes(topology)) {
+      params.set('peers', String(topologyOptions.targetPeers));
+    }
+    if (topology === 'erdos-renyi') params.set('erp', String(topologyOptions.erdosRenyiP));
+    if (topology === 'small-world') params.set('beta', String(topologyOptions.rewireProbability));
+    if (topologyOptions.geo) params.set('geo', '1');
     params.set('k', String(k));
+    params.set('field', rlncField);
+    params.set('sys', rlncSystematic ? '1' : '0');
+    params.set('density', String(rlncCodingDensity));
+    params.set('coding', rlncCodingMode);
+    if (rlncCodingMode === 'sliding-window') params.set('win', String(rlncWindowSize));
+    params.set('fb', rlncFeedback ? '1' : '0');
+    params.set('D', String(gossipMeshDegree));
+    params.set('pubs', String(publisherCount));
+    params.set('msgs', String(messageCount));
+    if (messageCount > 1) params.set('gap', String(messageIntervalMs));
     params.set('speed', String(speed));
 
     const newUrl = `${window.location.pathname}?${params.toString()}`;
     window.history.replaceState(null, '', newUrl);
-  }, [nodeCount, packetLoss, networkPreset, comparisonMode, topology, k, speed]);
+  }, [seed, nodeCount, packetLoss, lossModelType, gilbertElliott, networkPreset, bandwidthMbps, blockSizeKB, comparisonMode, topology, topologyOptions, k, rlncField, rlncSystematic, rlncCodingDensity, rlncCodingMode, rlncWindowSize, rlncFeedback, gossipMeshDegree, publisherCount, messageCount, messageIntervalMs, speed]);
 }
@@ -1,46 +1,147 @@
 /**
- * GF(2^8) arithmetic with irreducible polynomial x^8 + x^4 + x^3 + x + 1 (0x11B).
- * Used for RLNC coding coefficients.
+ * Binary extension fields GF(2^m) for RLNC coding coefficients.
+ *
+ * The field sets how likely a random combination is to be linearly
+ * dependent (about 1/q per shard) and how many header bits each
+ * coefficient costs. Payload bytes are treated as packed field elements:
+ * 8 parallel GF(2) symbols, two GF(2^4) nibbles, one GF(2^8) byte, or half
+ * a big-endian GF(2^16) word per byte.
  */
 
-const GF_SIZE = 256;
-const PRIMITIVE_POLY = 0x11b;
+export type FieldName = 'gf2' | 'gf16' | 'gf256' | 'gf65536';
 
-// Pre-computed lookup tables for fast multiplication
-const EXP_TABLE = new Uint8Array(512);
-const LOG_TABLE = new Uint8Array(GF_SIZE);
+export interface GaloisField {
+  readonly name: FieldName;
+  readonly label: string;
+  /** Bits per element, which is also the header cost per coefficient */
+  readonly bits: number;
+  /** Number of elements q */
+  readonly size: number;
+  /** Symbol lengths must be a multiple of this many bytes */
+  readonly symbolAlignment: number;
+  add(a: number, b: number): number;
+  mul(a: number, b: number): number;
+  inv(a: number): number;
+  /** Uniform random element, zero included */
+  random(rngFn: () => number): number;
+  /** dst += factor * src, element-wise over packed payload bytes */
+  addScaled(dst: Uint8Array, src: Uint8Array, factor: number): void;
+  /** row *= factor, element-wise over packed payload bytes */
+  scale(row: Uint8Array, factor: number): void;
+}
+
+// ── GF(2) ──
+
+const GF2: GaloisField = {
+  name: 'gf2',
+  label: 'GF(2)',
+  bits: 1,
+  size: 2,
+  symbolAlignment: 1,
+  add: (a, b) => a ^ b,
+  mul: (a, b) => a & b,
+  inv: (a) => {
+    if (a === 0) throw new Error('Cannot invert 0 in GF(2)');
+    return 1;
+  },
+  random: (rngFn) => (rngFn() < 0.5 ? 0 : 1),
+  addScaled: (dst, src, factor) => {
+    if (factor === 0) return;
+    for (let i = 0; i < dst.length; i++) dst[i] ^= src[i];
+  },
+  scale: (row, factor) => {
+    if (factor === 0) row.fill(0);
+  },
+};
+
+// ── Table-driven GF(2^m) ──
+
+/** Carry-less multiply reduced by `poly`; only used to build the tables */
+function slowMul(a: number, b: number, bits: number, poly: number): number {
+  let product = 0;
+  while (b) {
+    if (b & 1) product ^= a;
+    a <<= 1;
+    if (a & (1 << bits)) a ^= poly;
+    b >>= 1;
+  }
+  return product;
+}
+
+function tableField(
+  name: FieldName,
+  label: string,
+  bits: 4 | 8 | 16,
+  poly: number,
+  generator: number,
+): GaloisField {
+  const size = 1 << bits;
+  const order = size - 1;
+  const exp = new Uint16Array(order * 2);
+  const log = new Uint16Array(size);
 
-// Build tables using generator 0x03
-(function initTables() {
   let x = 1;
-  for (let i = 0; i < 255; i++) {
-    EXP_TABLE[i] = x;
-    EXP_TABLE[i + 255] = x;
-    LOG_TABLE[x] = i;
-    x = (x << 1) ^ (x & 0x80 ? PRIMITIVE_POLY : 0);
-    x &= 0xff;
+  for (let i = 0; i < order; i++) {
+    exp[i] = x;
+    exp[i + order] = x;
+    log[x] = i;
+    x = slowMul(x, generator, bits, poly);
   }
-  LOG_TABLE[0] = 0; // Convention: log(0) = 0, but gfMul handles 0 specially
-})();
 
-/** Addition in GF(2^8) = XOR */
-export function gfAdd(a: number, b: number): number {
-  return a ^ b;
-}
+  const mul = (a: number, b: number) => (a === 0 || b === 0 ? 0 : exp[log[a] + log[b]]);
 
-/** Multiplication in GF(2^8) via log/exp tables */
-export function gfMul(a: number, b: number): number {
-  if (a === 0 || b === 0) return 0;
-  return EXP_TABLE[LOG_TABLE[a] + LOG_TABLE[b]];
-}
+  // Multiply every packed element of `src` by `factor`, combining into `dst`
+  const mapPacked = (
+    dst: Uint8Array,
+    src: Uint8Array,
+    factor: number,
+    combine: (old: number, scaled: number) => number,
+  ) => {
+    if (bits === 8) {
+      for (let i = 0; i < dst.length; i++) dst[i] = combine(dst[i], mul(src[i], factor));
+    } else if (bits === 4) {
+      for (let i = 0; i < dst.length; i++) {
+        const scaled = (mul(src[i] >> 4, factor) << 4) | mul(src[i] & 0x0f, factor);
+        dst[i] = combine(dst[i], scaled);
+      }
+    } else {
+      for (let i = 0; i + 1 < dst.length; i += 2) {
+        const old = (dst[i] << 8) | dst[i + 1];
+        const word = combine(old, mul((src[i] << 8) | src[i + 1], factor));
+        dst[i] = word >> 8;
+        dst[i + 1] = word & 0xff;
+      }
+    }
+  };
 
-/** Multiplicative inverse in GF(2^8) */
-export function gfInv(a: number): number {
-  if (a === 0) throw new Error('Cannot invert 0 in GF(2^8)');
-  return EXP_TABLE[255 - LOG_TABLE[a]];
+  return {
+    name,
+    label,
+    bits,
+    size,
+    symbolAlignment: bits === 16 ? 2 : 1,
+    add: (a, b) => a ^ b,
+    mul,
+    inv: (a) => {
+      if (a === 0) throw new Error(`Cannot invert 0 in ${label}`);
+      return exp[order - log[a]];
+    },
+    random: (rngFn) => Math.floor(rngFn() * size),
+    addScaled: (dst, src, factor) => {
+      if (factor !== 0) mapPacked(dst, src, factor, (old, scaled) => old ^ scaled);
+    },
+    scale: (row, factor) => mapPacked(row, row, factor, (_, scaled) => scaled),
+  };
 }
 
-/** Generate a random nonzero element in GF(2^8) */
-export function gfRandom(rngFn: () => number): number {
-  return Math.floor(rngFn() * 255) + 1; // [1, 255]
-}
+export const FIELDS: Record<FieldName, GaloisField> = {
+  gf2: GF2,
+  // x^4 + x + 1, generator 0x02
+  gf16: tableField('gf16', 'GF(2^4)', 4, 0x13, 0x02),
+  // x^8 + x^4 + x^3 + x + 1 (0x11B); 0x02 only has order 51 here, so use 0x03
+  gf256: tableField('gf256', 'GF(2^8)', 8, 0x11b, 0x03),
+  // x^16 + x^12 + x^3 + x + 1, generator 0x02
+  gf65536: tableField('gf65536', 'GF(2^16)', 16, 0x1100b, 0x02),
+};
+
+export const DEFAULT_FIELD = FIELDS.gf256;
@@ -1,18 +1,28 @@
-import { gfAdd, gfMul, gfInv } from './galoisField';
+import { DEFAULT_FIELD, type GaloisField } from './galoisField';
+import type { CodedPacket } from './rlnc';
 
 /**
- * Incrementally track the rank of a matrix over GF(2^8).
+ * Incrementally track the rank of a matrix over a Galois field
+ * (GF(2^8) unless another is given).
  * Each call to `addRow` performs partial Gaussian elimination
  * and returns the new rank.
+ *
+ * Rows may carry a payload (the coded symbol bytes); the same row
+ * operations are applied to it, so at full rank `decode` recovers the
+ * k source symbols.
  */
 export class IncrementalRankTracker {
   private pivots: (number[] | null)[];
+  private payloads: (Uint8Array | null)[];
   private _rank: number;
   readonly k: number;
+  readonly field: GaloisField;
 
-  constructor(k: number) {
+  constructor(k: number, field: GaloisField = DEFAULT_FIELD) {
     this.k = k;
+    this.field = field;
     this.pivots = new Array(k).fill(null);
+    this.payloads = new Array(k).fill(null);
     this._rank = 0;
   }
 
@@ -28,19 +38,24 @@ export class IncrementalRankTracker {
    * Try to add a new coding vector (row) to the matrix.
    * Returns true if the row was linearly independent (increased rank).
    */
-  addRow(row: number[]): boolean {
+  addRow(row: number[], payload?: Uint8Array): boolean {
+    const { add, mul, inv } = this.field;
     const r = [...row];
+    const data = payload ? Uint8Array.from(payload) : null;
     for (let col = 0; col < this.k; col++) {
       if (r[col] === 0) continue;
       if (this.pivots[col] !== null) {
         // Eliminate this column using the existing pivot row
-        const factor = gfMul(r[col], gfInv(this.pivots[col]![col]));
+        const factor = mul(r[col], inv(this.pivots[col]![col]));
         for (let j = 0; j < this.k; j++) {
-          r[j] = gfAdd(r[j], gfMul(factor, this.pivots[col]![j]));
+          r[j] = add(r[j], mul(factor, this.pivots[col]![j]));
         }
+        const pivotData = this.payloads[col];
+        if (data && pivotData) this.field.addScaled(data, pivotData, factor);
       } else {
         // New pivot found
         this.pivots[col] = r;
+        this.payloads[col] = data;
         this._rank++;
         return true;
       }
@@ -49,8 +64,98 @@ export class IncrementalRankTracker {
     return false;
   }
 
+  /** Whether `row` already lies in the received subspace, so adding it would not raise the rank */
+  spans(row: number[]): boolean {
+    const { add, mul, inv } = this.field;
+    const r = [...row];
+    for (let col = 0; col < this.k; col++) {
+      if (r[col] === 0) continue;
+      const pivot = this.pivots[col];
+      if (!pivot) return false;
+      const factor = mul(r[col], inv(pivot[col]));
+      for (let j = 0; j < this.k; j++) r[j] = add(r[j], mul(factor, pivot[j]));
+    }
+    return true;
+  }
+
+  /**
+   * The reduced rows received so far, with their payloads. They span
+   * exactly the subspace this node has received, so recoding from them
+   * can never emit more than `rank` dimensions of innovation.
+   */
+  basis(): CodedPacket[] {
+    const rows: CodedPacket[] = [];
+    this.pivots.forEach((coefficients, col) => {
+      const data = this.payloads[col];
+      if (coefficients && data) rows.push({ coefficients, data });
+    });
+    return rows;
+  }
+
+  /**
+   * Length of the longest prefix of source symbols (0..p-1) that the
+   * received rows already determine, i.e. how far in-order delivery has
+   * got. Re-reduces the rows so each ends on a distinct last column: the
+   * rows ending at or before column p then span exactly the part of the
+   * subspace supported on 0..p.
+   */
+  decodablePrefix(): number {
+    const { add, mul, inv } = this.field;
+    const byLastColumn: (number[] | null)[] = new Array(this.k).fill(null);
+
+    for (const pivot of this.pivots) {
+      if (!pivot) continue;
+      const r = [...pivot];
+      for (let col = this.k - 1; col >= 0; col--) {
+        if (r[col] === 0) continue;
+        const other = byLastColumn[col];
+        if (!other) {
+          byLastColumn[col] = r;
+          break;
+        }
+        const factor = mul(r[col], inv(other[col]));
+        for (let j = 0; j <= col; j++) r[j] = add(r[j], mul(factor, other[j]));
+      }
+    }
+
+    let prefix = 0;
+    while (prefix < this.k && byLastColumn[prefix]) prefix++;
+    return prefix;
+  }
+
+  /**
+   * Back-substitute to the k source symbols.
+   * Returns null until full rank, or if any row arrived without a payload.
+   */
+  decode(): Uint8Array[] | null {
+    if (!this.isFullRank) return null;
+    const { add, mul, inv } = this.field;
+    const rows = this.pivots.map((p) => [...p!]);
+    const data = this.payloads.map((d) => (d ? Uint8Array.from(d) : null));
+    if (data.some((d) => d === null)) return null;
+
+    // Pivots are upper-triangular: normalize from the bottom up and
+    // clear each pivot column from the rows above it.
+    for (let col = this.k - 1; col >= 0; col--) {
+      const pivotInv = inv(rows[col][col]);
+      for (let j = 0; j < this.k; j++) rows[col][j] = mul(rows[col][j], pivotInv);
+      this.field.scale(data[col]!, pivotInv);
+
+      for (let above = 0; above < col; above++) {
+        const factor = rows[above][col];
+        if (factor === 0) continue;
+        for (let j = 0; j < this.k; j++) {
+          rows[above][j] = add(rows[above][j], mul(factor, rows[col][j]));
+        }
+        this.field.addScaled(data[above]!, data[col]!, factor);
+      }
+    }
+    return data as Uint8Array[];
+  }
+
   reset(): void {
     this.pivots = new Array(this.k).fill(null);
+    this.payloads = new Array(this.k).fill(null);
     this._rank = 0;
   }
 }
@@ -6,6 +6,12 @@ export function setSeed(seed: string) {
   rng = seedrandom(seed);
 }
 
+/** Create an independent PRNG stream, leaving the shared one untouched */
+export function createRng(seed: string): () => number {
+  const local = seedrandom(seed);
+  return () => local();
+}
+
 /** Returns a random float in [0, 1) */
 export function random(): number {
   return rng();
@@ -22,9 +28,10 @@ export function randomNormal(
   stdDev: number,
   min: number,
   max: number,
+  rngFn: () => number = random,
 ): number {
-  let u1 = rng();
-  let u2 = rng();
+  let u1 = rngFn();
+  const u2 = rngFn();
   // Avoid log(0)
   if (u1 === 0) u1 = 0.0001;
   const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
@@ -33,9 +40,9 @@ export function randomNormal(
 }
 
 /** Shuffle an array in-place (Fisher-Yates) */
-export function shuffle<T>(arr: T[]): T[] {
+export function shuffle<T>(arr: T[], rngFn: () => number = random): T[] {
   for (let i = arr.length - 1; i > 0; i--) {
-    const j = Math.floor(rng() * (i + 1));
+    const j = Math.floor(rngFn() * (i + 1));
     [arr[i], arr[j]] = [arr[j], arr[i]];
   }
   return arr;
@@ -0,0 +1,124 @@
+/**
+ * RLNC payload coding over a selectable Galois field.
+ *
+ * A payload is split into k equal source symbols; a coded packet is a
+ * linear combination of them, tagged with its coefficient vector. Relays
+ * combine the packets they hold into new ones without decoding, and any
+ * k linearly independent packets decode back to the payload
+ * (see `IncrementalRankTracker.decode`).
+ */
+
+import type { GaloisField } from './galoisField';
+
+export interface CodedPacket {
+  /** Coefficients over the k source symbols */
+  coefficients: number[];
+  /** The combined symbol bytes */
+  data: Uint8Array;
+}
+
+export interface CodingOptions {
+  /** Probability each coefficient is nonzero; 1 (the default) is dense coding */
+  density?: number;
+  /** Sliding-window coding: only symbols in [start, end) are combined */
+  window?: { start: number; end: number };
+}
+
+/**
+ * Draw one coefficient per slot. Dense coding draws uniformly; sparse
+ * coding keeps each slot with probability `density` and never returns an
+ * all-zero vector, which would carry nothing.
+ */
+function drawCoefficients(
+  count: number,
+  rng: () => number,
+  field: GaloisField,
+  density: number,
+): number[] {
+  if (density >= 1) return Array.from({ length: count }, () => field.random(rng));
+
+  const nonzero = () => 1 + Math.floor(rng() * (field.size - 1));
+  const coefficients = Array.from({ length: count }, () => (rng() < density ? nonzero() : 0));
+  if (count > 0 && !coefficients.some((c) => c !== 0)) {
+    coefficients[Math.floor(rng() * count)] = nonzero();
+  }
+  return coefficients;
+}
+
+/** Split `payload` into k symbols, zero-padding to whole field elements */
+export function splitIntoSymbols(payload: Uint8Array, k: number, field: GaloisField): Uint8Array[] {
+  const align = field.symbolAlignment;
+  const symbolSize = Math.max(align, Math.ceil(payload.length / k / align) * align);
+  return Array.from({ length: k }, (_, i) => {
+    const symbol = new Uint8Array(symbolSize);
+    symbol.set(payload.subarray(i * symbolSize, (i + 1) * symbolSize));
+    return symbol;
+  });
+}
+
+/** Concatenate decoded symbols and strip the padding back to `length` bytes */
+export function joinSymbols(symbols: Uint8Array[], length: number): Uint8Array {
+  const out = new Uint8Array(symbols.reduce((sum, s) => sum + s.length, 0));
+  let offset = 0;
+  for (const s of symbols) {
+    out.set(s, offset);
+    offset += s.length;
+  }
+  return out.subarray(0, length);
+}
+
+/** Systematic publisher: source symbol `index` sent uncoded, tagged with a unit vector */
+export function sourcePacket(sources: Uint8Array[], index: number): CodedPacket {
+  const coefficients = sources.map((_, i) => (i === index ? 1 : 0));
+  return { coefficients, data: sources[index].slice() };
+}
+
+/** Publisher: a fresh random combination of the source symbols (or a window of them) */
+export function encodePacket(
+  sources: Uint8Array[],
+  rng: () => number,
+  field: GaloisField,
+  options: CodingOptions = {},
+): CodedPacket {
+  const { start, end } = options.window ?? { start: 0, end: sources.length };
+  const drawn = drawCoefficients(end - start, rng, field, options.density ?? 1);
+  const coefficients = sources.map((_, i) => (i >= start && i < end ? drawn[i - start] : 0));
+  const data = new Uint8Array(sources[0].length);
+  sources.forEach((symbol, i) => field.addScaled(data, symbol, coefficients[i]));
+  return { coefficients, data };
+}
+
+/**
+ * Relay: a random combination of packets already held. The result lies
+ * in the span of `held`, so it can only be as innovative as they are.
+ * With `density` below 1 each held packet joins the mix only that often.
+ */
+export function recodePacket(
+  held: CodedPacket[],
+  rng: () => number,
+  field: GaloisField,
+  density = 1,
+): CodedPacket {
+  const k = held[0].coefficients.length;
+  const coefficients = new Array<number>(k).fill(0);
+  const data = new Uint8Array(held[0].data.length);
+  const mix = drawCoefficients(held.length, rng, field, density);
+
+  for (const [i, packet] of held.entries()) {
+    const c = mix[i];
+    for (let j = 0; j < k; j++) {
+      coefficients[j] = field.add(coefficients[j], field.mul(c, packet.coefficients[j]));
+    }
+    field.addScaled(data, packet.data, c);
+  }
+  return { coefficients, data };
+}
+
+/** Byte-for-byte comparison used to verify a decode */
+export function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
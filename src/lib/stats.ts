@@ -0,0 +1,20 @@
+/**
+ * Small descriptive-statistics helpers shared by the metrics and
+ * experiments panels.
+ */
+
+/** Arithmetic mean, or null for an empty sample */
+export function mean(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+/** Linearly interpolated percentile of an ascending-sorted sample */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const idx = (p / 100) * (sorted.length - 1);
+  const lo = Math.floor(idx);
+  const hi = Math.ceil(idx);
+  if (lo === hi) return sorted[lo];
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (idx - lo);
+}
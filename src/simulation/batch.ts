@@ -0,0 +1,128 @@
+/**
+ * Headless batch runs.
+ *
+ * Drives a private `SimulationEngine` to completion without React or
+ * requestAnimationFrame, so Monte Carlo comparisons of RLNC vs GossipSub
+ * can run thousands of slots instead of one animated slot at a time.
+ *
+ * Every run is seeded: the same parameters and seed always produce the
+ * same metrics, independent of the dashboard's shared PRNG.
+ */
+
+import type { NetworkTopology, RlncCodingMode } from './types';
+import type { FieldName } from '@/lib/galoisField';
+import { SimulationEngine, concurrentPublishers, messageStream, type EngineMetrics } from './engine';
+import { createRng } from '@/lib/prng';
+
+export interface HeadlessRunParams {
+  /** Network to run on; per-edge loss and bandwidth govern each link */
+  topology: NetworkTopology;
+  publisherNodeId: string;
+  k: number;
+  redundancyFactor: number;
+  gossipMeshDegree: number;
+  blockSizeKB: number;
+  /** RLNC coding field; defaults to GF(2^8) */
+  field?: FieldName;
+  /** Publisher sends the source symbols uncoded first */
+  systematic?: boolean;
+  /** Nonzero-coefficient probability; dense when absent */
+  codingDensity?: number;
+  codingMode?: RlncCodingMode;
+  windowSize?: number;
+  /** Feedback-driven RLNC instead of blind push */
+  feedback?: boolean;
+  /** Nodes publishing concurrently, `publisherNodeId` plus seeded picks; defaults to one */
+  publisherCount?: number;
+  /** Messages streamed from each publisher; defaults to one */
+  messageCount?: number;
+  /** Gap between consecutive publishes (ms) */
+  messageIntervalMs?: number;
+  /** CPU cost calibration, normally the network preset's processing delays */
+  processingDelayRLNC: number;
+  processingDelayGossip: number;
+  seed: string;
+  /** Stop processing events after this simulated time. Defaults to draining the queue. */
+  maxSimMs?: number;
+}
+
+export interface HeadlessRunResult {
+  seed: string;
+  publisherNodeId: string;
+  metrics: EngineMetrics;
+  /** Simulated ms at which each node completed; nodes that never did are absent */
+  deliveryTimes: {
+    rlnc: Record<string, number>;
+    gossipsub: Record<string, number>;
+  };
+}
+
+/**
+ * Run both protocols for one slot's publications and return the final metrics.
+ */
+export function runHeadless(params: HeadlessRunParams): HeadlessRunResult {
+  const { topology, publisherNodeId, k, redundancyFactor, gossipMeshDegree, blockSizeKB, seed } = params;
+
+  const publisherIds = concurrentPublishers(
+    topology.nodes.map((n) => n.id),
+    publisherNodeId,
+    params.publisherCount ?? 1,
+    createRng(`${seed}:publishers`),
+  );
+
+  const engine = new SimulationEngine();
+  engine.init({
+    publisherNodeId,
+    nodes: topology.nodes,
+    edges: topology.edges,
+    k,
+    redundancyFactor,
+    gossipMeshDegree,
+    blockSizeKB,
+    field: params.field,
+    systematic: params.systematic,
+    codingDensity: params.codingDensity,
+    codingMode: params.codingMode,
+    windowSize: params.windowSize,
+    feedback: params.feedback,
+    messages: messageStream(publisherIds, params.messageCount ?? 1, params.messageIntervalMs ?? 0),
+    processingDelayRLNC: params.processingDelayRLNC,
+    processingDelayGossip: params.processingDelayGossip,
+    seed,
+  });
+
+  const { metrics } = engine.advanceTo(params.maxSimMs ?? Infinity);
+
+  return {
+    seed,
+    publisherNodeId,
+    metrics,
+    deliveryTimes: engine.getNodeDeliveryTimes(),
+  };
+}
+
+export interface MonteCarloParams extends Omit<HeadlessRunParams, 'publisherNodeId'> {
+  /** Fixed publisher; when omitted each trial picks a seeded random proposer */
+  publisherNodeId?: string;
+  trials: number;
+}
+
+/**
+ * Repeat `runHeadless` over `trials` derived seeds (`<seed>#<trial>`).
+ */
+export function runMonteCarlo(params: MonteCarloParams): HeadlessRunResult[] {
+  const { trials, seed, publisherNodeId, ...rest } = params;
+  const nodes = rest.topology.nodes;
+  const results: HeadlessRunResult[] = [];
+
+  for (let trial = 0; trial < trials; trial++) {
+    const trialSeed = `${seed}#${trial}`;
+    const proposer =
+      publisherNodeId ??
+      nodes[Math.floor(createRng(`${trialSeed}:proposer`)() * nodes.length)].id;
+
+    results.push(runHeadless({ ...rest, publisherNodeId: proposer, seed: trialSeed }));
+  }
+
+  return results;
+}
@@ -0,0 +1,66 @@
+/**
+ * CPU cost of protocol work, in simulated milliseconds.
+ *
+ * A preset's `processingDelayRLNC` is what a reference node spends on one
+ * incoming shard at the reference configuration (GF(2^8), k = 4, 128 KB
+ * block): eliminating it against the rows already held, then recoding one
+ * shard from them. `processingDelayGossip` is the time to validate one
+ * reference block. Everything else scales from those by the row operations
+ * the work needs and divides by the node's CPU speed factor.
+ *
+ * A row operation touches k coefficients plus the shard payload, and
+ * eliminating one row takes up to k of them, so the coefficient part of a
+ * shard costs O(k^2) and decoding a full block O(k^3).
+ */
+
+import type { FieldName } from '@/lib/galoisField';
+
+const REFERENCE_K = 4;
+const REFERENCE_BLOCK_BYTES = 128 * 1024;
+const REFERENCE_ROW_WORK = REFERENCE_K + REFERENCE_BLOCK_BYTES / REFERENCE_K;
+// Elimination plus one recode at full rank
+const REFERENCE_ROW_OPS = 2 * REFERENCE_K;
+
+/** Per-element cost relative to GF(2^8) table lookups */
+const FIELD_COST_FACTOR: Record<FieldName, number> = {
+  gf2: 0.25, // plain XOR, no lookups
+  gf16: 1.5, // two nibble lookups per byte
+  gf256: 1,
+  gf65536: 2, // log/exp tables spill out of L1
+};
+
+export interface CodingCostParams {
+  k: number;
+  field: FieldName;
+  /** Payload bytes per shard, excluding the coefficient header */
+  symbolBytes: number;
+  /** Fraction of nonzero coefficients; sparse rows skip the zero terms */
+  density: number;
+  processingDelayRLNC: number;
+}
+
+/** Cost of one row operation: scale a row and add it to another */
+function rowOpMs(p: CodingCostParams): number {
+  const work = p.k + p.symbolBytes;
+  return (p.processingDelayRLNC * FIELD_COST_FACTOR[p.field] * work) / (REFERENCE_ROW_OPS * REFERENCE_ROW_WORK);
+}
+
+/** Reduce one incoming shard against the `rank` rows already held */
+export function eliminationMs(p: CodingCostParams, rank: number): number {
+  return Math.max(rank, 1) * rowOpMs(p);
+}
+
+/** Combine `rank` held rows (or k source symbols, at the publisher) into one shard */
+export function recodeMs(p: CodingCostParams, rank: number): number {
+  return Math.max(rank * p.density, 1) * rowOpMs(p);
+}
+
+/** Back-substitute a full-rank matrix to the k source symbols */
+export function decodeMs(p: CodingCostParams): number {
+  return ((p.k * (p.k + 1)) / 2) * rowOpMs(p);
+}
+
+/** Validate a full GossipSub block before delivering and forwarding it */
+export function gossipValidateMs(processingDelayGossip: number, blockBytes: number): number {
+  return (processingDelayGossip * blockBytes) / REFERENCE_BLOCK_BYTES;
+}
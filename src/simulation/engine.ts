@@ -7,573 +7,1420 @@
  *
  * Both protocols share the same timeline for fair comparison.
  *
+ * Each `SimulationEngine` instance owns its own event queue, rank
+ * trackers and metrics, so the dashboard, batch experiments and
+ * headless runs can drive independent propagations side by side.
+ *
+ * Every transmission is serialized onto its directed link: a link has a
+ * bandwidth, carries one packet at a time in FIFO order, and a packet
+ * arrives `latencyMs` after its last bit leaves. A full GossipSub block
+ * therefore occupies a link k times longer than one RLNC shard, and
+ * fan-out bursts queue behind each other.
+ *
  * Key behaviors:
- * - RLNC: Publisher sends loss-compensated burst. Relays continuously
- *   generate new coded shards (2 per incoming) and schedule periodic
- *   recode pushes. This models real RLNC's continuous coding.
- * - GossipSub: Store-and-forward with heartbeat-based retransmission.
- *   Nodes retry sending to neighbors that haven't received, modeling
- *   the IHAVE/IWANT gossip protocol.
+ * - RLNC: Publisher splits a real payload into k symbols and sends a
+ *   loss-compensated burst of coded shards. Relays continuously recode
+ *   (2 per incoming) from the packets they hold and schedule periodic
+ *   recode pushes; a shard that added nothing is replaced while its
+ *   sender still has something to give. Subscribers decode and verify the
+ *   payload bytes. In feedback mode nodes announce full rank to their
+ *   neighbors, and senders (publisher included) stop pushing to peers
+ *   they heard from.
+ * - GossipSub v1.1: the publisher flood-publishes to all peers, relays
+ *   eagerly push the full block to their mesh peers only, and on each
+ *   heartbeat gossip IHAVE to non-mesh peers, who pull it with IWANT.
+ *   Mesh peers not known to have the block get IHAVE too, so a lost eager
+ *   push is recovered the same way.
+ *
+ * Encoding, elimination, recoding, decoding and block validation take CPU
+ * time (see `computeCost.ts`), queued FIFO on each node's CPU per protocol.
+ *
+ * A run publishes a stream of one or more messages, possibly from several
+ * concurrent publishers. Each message has its own publisher, rank trackers
+ * and delivery state, while links and CPUs are shared, so messages contend
+ * for them and later ones queue behind earlier ones.
+ *
+ * Each message is published on a topic. Nodes that don't subscribe to it
+ * still relay it, paying bandwidth and CPU, but completion only waits for
+ * subscribers.
+ *
+ * Every packet arrival is kept in a trace (`getTrace`), so a run can be
+ * inspected or exported after the fact.
  */
 
-import type { AnimatedParticle, Edge } from './types';
+import type { AnimatedParticle, Edge, RlncCodingMode, Topic } from './types';
 import { MinHeap } from './eventQueue';
-import { gfRandom } from '@/lib/galoisField';
+import { LossChannel, badRunExcessDrops, stationaryLossRate } from './lossModel';
+import { buildGossipMesh, gossipMeshParams } from './gossipMesh';
+import {
+  type CodingCostParams,
+  eliminationMs,
+  recodeMs,
+  decodeMs,
+  gossipValidateMs,
+} from './computeCost';
 import { IncrementalRankTracker } from '@/lib/gaussianElimination';
-import { random } from '@/lib/prng';
+import { DEFAULT_FIELD, FIELDS, type FieldName, type GaloisField } from '@/lib/galoisField';
+import {
+  type CodedPacket,
+  splitIntoSymbols,
+  joinSymbols,
+  sourcePacket,
+  encodePacket,
+  recodePacket,
+  bytesEqual,
+} from '@/lib/rlnc';
+import { random, createRng, shuffle } from '@/lib/prng';
 
 // ── Event types ──
 
-interface SimEvent {
-  fireAt: number;
-  seq: number;
+interface Transmission {
   protocol: 'rlnc' | 'gossipsub';
-  type: 'shard_arrive' | 'message_arrive';
+  /** Index of the message in the stream */
+  messageId: number;
   fromNode: string;
   toNode: string;
   shardIndex?: number;
-  codingVector?: number[];
+  /** RLNC coded shard; relays leave it unset and recode when the shard reaches the link */
+  packet?: CodedPacket;
+  /**
+   * Control message carried instead of data: GossipSub IHAVE/IWANT, or an
+   * RLNC "rank reached" signal in feedback mode
+   */
+  control?: 'ihave' | 'iwant' | 'rank';
+}
+
+interface SimEvent extends Transmission {
+  fireAt: number;
+  seq: number;
+  /**
+   * `send` hands a deferred transmission to its link queue at `fireAt`;
+   * `heartbeat` runs GossipSub's periodic gossip on `toNode`; `publish`
+   * starts a message (round 0) or an RLNC resend round on its publisher.
+   */
+  type: 'send' | 'shard_arrive' | 'message_arrive' | 'heartbeat' | 'publish';
   dropped: boolean;
+  /** Publish round: 0 is the initial publication, then PUBLISHER_RESEND_TIMES */
+  round?: number;
+  /** Arrivals: when the packet started onto the link, after any queueing */
+  sentAt?: number;
 }
 
-// ── Engine state (module-level singleton) ──
+// ── Tuning constants ──
 
-const eventQueue = new MinHeap<SimEvent>();
-const rlncTrackers = new Map<string, IncrementalRankTracker>();
+const RLNC_PUSH_INTERVAL = 3; // ms between push rounds
+const RLNC_SYMBOL_INTERVAL = 5; // ms between stream symbols in sliding-window mode
+// Default bytes pushed through the codec. Wire size and timing follow
+// `blockSizeKB`; the coded sample just needs to be real data to verify.
+const RLNC_SAMPLE_PAYLOAD_BYTES = 1024;
+const RLNC_FEEDBACK_BYTES = 16; // "rank reached": message id plus framing
 
-// Track what gossip nodes have received (set of nodeIds that have the message)
-const gossipReceived = new Set<string>();
-// Track which gossip nodes have already forwarded (to prevent infinite loops)
-const gossipForwarded = new Set<string>();
-// Track per-node last duplicate arrival simTime (for UI flash effect)
-const gossipLastDuplicateSimTime = new Map<string, number>();
-// Track per-node last redundant RLNC shard arrival simTime
-const rlncLastRedundantSimTime = new Map<string, number>();
+const GOSSIP_HEARTBEAT_INTERVAL = 700; // ms, Ethereum consensus-layer setting
+const GOSSIP_HISTORY_GOSSIP = 3; // heartbeats a message is advertised via IHAVE (mcache_gossip)
+const GOSSIP_CONTROL_BYTES = 64; // IHAVE/IWANT: message id plus framing
 
-// Edges lookup for fast access
-let edgeLookup = new Map<string, Edge>();
+// Publisher periodic resend times (sim ms after publishing) — ensures delivery under high loss
+const PUBLISHER_RESEND_TIMES = [100, 250, 500];
 
-// Per-node last RLNC reconstruction time (simulated ms)
-const rlncNodeDeliveryTime = new Map<string, number>();
-// Per-node last GossipSub delivery time (simulated ms)
-const gossipNodeDeliveryTime = new Map<string, number>();
+/** Drop statistics shared by both protocols */
+export interface LossMetrics {
+  droppedTransmissions: number;
+  /** Runs of consecutive drops on the same link */
+  lossBursts: number;
+  /** Longest run of consecutive drops seen on any link */
+  maxLossBurst: number;
+}
 
-// RLNC: track how many recode rounds each relay has done (cap to prevent explosion)
-const rlncRecodePushes = new Map<string, number>();
-const MAX_RLNC_PUSHES_PER_NODE = 12; // max recode push rounds per relay
-const RLNC_PUSH_INTERVAL = 3; // ms between push rounds
+/** Work done by relays on messages they don't subscribe to */
+export interface RelayCostMetrics {
+  /** Bytes sent and received by non-subscribers of the message carried */
+  nonSubscriberBytes: number;
+  /** CPU time non-subscribers spent on messages they only relay (ms) */
+  nonSubscriberCpuMs: number;
+}
 
-// GossipSub: track retry count per node
-const gossipRetries = new Map<string, number>();
-const MAX_GOSSIP_RETRIES = 4;
-const GOSSIP_RETRY_INTERVAL = 80; // ms between retries
+/** Bytes put on the wire for one RLNC shard: 1/k of the block plus its coding vector */
+export function rlncShardBytes(blockBytes: number, k: number, field: GaloisField = DEFAULT_FIELD): number {
+  return Math.ceil(blockBytes / k) + Math.ceil((k * field.bits) / 8);
+}
 
-// Publisher periodic resend times (sim ms) — ensures delivery under high loss
-const PUBLISHER_RESEND_TIMES = [100, 250, 500];
+/** Byte counters for one node in one protocol */
+export interface NodeBytes {
+  sent: number;
+  received: number;
+}
 
-// Accumulated metrics
+/** One protocol's progress on one message */
+export interface MessageDelivery {
+  /** Subscribers that have the message (decoded, for RLNC) */
+  delivered: number;
+  subscribers: number;
+  /** Sim time the last subscriber got it, once all have */
+  completedAt: number | null;
+}
+
+/** Delivery of one message in the stream */
+export interface MessageMetrics {
+  id: number;
+  publisherId: string;
+  topic: Topic;
+  publishAt: number;
+  rlnc: MessageDelivery;
+  gossipsub: MessageDelivery;
+}
+
+/**
+ * One packet arrival as the engine processed it, dropped ones included.
+ * Together the trace is a complete record of a run's traffic. It holds
+ * arrivals only: a send is folded into its arrival as `sentAt`, and
+ * publishes, heartbeats and CPU work such as decoding aren't recorded.
+ */
+export interface TraceEvent {
+  /** Arrival time (ms); a dropped packet would have arrived then */
+  time: number;
+  /** When the packet started onto the link (ms) */
+  sentAt: number;
+  protocol: 'rlnc' | 'gossipsub';
+  messageId: number;
+  from: string;
+  to: string;
+  /** A data packet (RLNC shard or GossipSub block) or the control message carried */
+  kind: 'shard' | 'block' | 'ihave' | 'iwant' | 'rank';
+  bytes: number;
+  dropped: boolean;
+  /**
+   * Data packets that arrived: innovative if it raised the receiver's rank
+   * or was its first copy of the block, otherwise redundant. Null for
+   * dropped packets and control messages.
+   */
+  outcome: 'innovative' | 'redundant' | null;
+  /** Receiver's RLNC rank for the message afterwards; null for GossipSub and the message's publisher */
+  rankAfter: number | null;
+}
+
+// Accumulated metrics. Delivery fields cover the whole stream: a node is
+// delivered once it has every message it subscribes to, and nodes that
+// subscribe to none of them never count.
 export interface EngineMetrics {
-  rlnc: {
+  rlnc: LossMetrics & RelayCostMetrics & {
     totalTransmissions: number;
+    /** Longest time any packet waited behind others on a link (ms) */
+    maxQueueDelayMs: number;
+    /** Bytes serialized onto links, including packets later dropped */
+    bytesSent: number;
+    /** Bytes that arrived intact */
+    bytesReceived: number;
+    /** CPU time spent encoding, eliminating, recoding and decoding, over all nodes (ms) */
+    cpuTimeMs: number;
     usefulTransmissions: number;
     deliveredNodes: string[];
     lastDeliverySimMs: number | null;
     allDone: boolean;
+    /** Shards sent by relays rather than the publisher */
+    recodedTransmissions: number;
+    /** Relay shards that raised the receiver's rank */
+    innovativeRecodedTransmissions: number;
+    /** Shards that reached a node still short of full rank but were linearly dependent */
+    linearlyDependent: number;
+    /** Source symbols that became decodable in order, summed over subscribers */
+    inOrderSymbols: number;
+    /** Total time from each symbol's release to its in-order decode (ms) */
+    inOrderLatencyTotalMs: number;
+    /** Decodes (one per subscriber per message) whose bytes matched the published payload */
+    verifiedNodes: number;
+    /** Decodes that reached full rank but produced the wrong bytes */
+    decodeFailures: number;
+    /** "Rank reached" signals sent in feedback mode, delivered or dropped */
+    feedbackMessages: number;
+    /** Shards not sent because the receiver had signalled full rank */
+    suppressedShards: number;
   };
-  gossipsub: {
+  gossipsub: LossMetrics & RelayCostMetrics & {
     totalTransmissions: number;
+    maxQueueDelayMs: number;
+    bytesSent: number;
+    bytesReceived: number;
+    /** CPU time spent validating blocks, over all nodes (ms) */
+    cpuTimeMs: number;
     usefulTransmissions: number;
     duplicates: number;
+    /** IHAVE and IWANT messages delivered or dropped */
+    controlMessages: number;
     deliveredNodes: string[];
     lastDeliverySimMs: number | null;
     allDone: boolean;
   };
+  /** Per-message delivery, in publish order */
+  messages: MessageMetrics[];
 }
 
-let metrics: EngineMetrics = emptyEngineMetrics();
-let subscriberIds: string[] = [];
-let publisherId: string | null = null;
-let simK = 4;
-let simLossRate = 0;
-let simNodes: { id: string; neighbors: string[] }[] = [];
-
 function emptyEngineMetrics(): EngineMetrics {
   return {
     rlnc: {
       totalTransmissions: 0,
+      maxQueueDelayMs: 0,
+      bytesSent: 0,
+      bytesReceived: 0,
+      cpuTimeMs: 0,
+      nonSubscriberBytes: 0,
+      nonSubscriberCpuMs: 0,
       usefulTransmissions: 0,
+      droppedTransmissions: 0,
+      lossBursts: 0,
+      maxLossBurst: 0,
       deliveredNodes: [],
       lastDeliverySimMs: null,
       allDone: false,
+      recodedTransmissions: 0,
+      innovativeRecodedTransmissions: 0,
+      linearlyDependent: 0,
+      inOrderSymbols: 0,
+      inOrderLatencyTotalMs: 0,
+      verifiedNodes: 0,
+      decodeFailures: 0,
+      feedbackMessages: 0,
+      suppressedShards: 0,
     },
     gossipsub: {
       totalTransmissions: 0,
+      maxQueueDelayMs: 0,
+      bytesSent: 0,
+      bytesReceived: 0,
+      cpuTimeMs: 0,
+      nonSubscriberBytes: 0,
+      nonSubscriberCpuMs: 0,
       usefulTransmissions: 0,
       duplicates: 0,
+      controlMessages: 0,
+      droppedTransmissions: 0,
+      lossBursts: 0,
+      maxLossBurst: 0,
       deliveredNodes: [],
       lastDeliverySimMs: null,
       allDone: false,
     },
+    messages: [],
   };
 }
 
 // ── Public API ──
 
+/** One message in a publication stream */
+export interface MessageSpec {
+  publisherNodeId: string;
+  /** Sim time the publisher starts sending it */
+  publishAt: number;
+  /** Defaults to `beacon_block` */
+  topic?: Topic;
+}
+
+/**
+ * `count` messages from each publisher, `intervalMs` apart, starting at 0:
+ * a block followed by blob sidecars. Concurrent publishers release their
+ * messages at the same instants.
+ */
+export function messageStream(publisherNodeIds: string[], count: number, intervalMs: number): MessageSpec[] {
+  return Array.from({ length: Math.max(1, count) }, (_, i) =>
+    publisherNodeIds.map((publisherNodeId): MessageSpec => ({
+      publisherNodeId,
+      publishAt: i * intervalMs,
+      topic: i === 0 ? 'beacon_block' : 'blob_sidecar',
+    })),
+  ).flat();
+}
+
+/** Whether a node wants messages on `topic` */
+export function subscribesTo(node: { subscriptions?: Topic[] }, topic: Topic): boolean {
+  return node.subscriptions?.includes(topic) ?? true;
+}
+
+/**
+ * The proposer plus `count - 1` other nodes drawn with `rng`, e.g. competing
+ * proposers or independent transaction originators.
+ */
+export function concurrentPublishers(
+  nodeIds: string[],
+  proposerId: string,
+  count: number,
+  rng: () => number,
+): string[] {
+  const others = shuffle(nodeIds.filter((id) => id !== proposerId), rng);
+  return [proposerId, ...others.slice(0, Math.max(0, count - 1))];
+}
+
+/** Node as the engine sees it */
+type SimNode = { id: string; neighbors: string[]; cpuSpeed?: number; subscriptions?: Topic[] };
+
 export interface InitParams {
   publisherNodeId: string;
-  nodes: { id: string; neighbors: string[] }[];
+  /**
+   * `cpuSpeed` scales each node's processing time (1 = reference machine);
+   * `subscriptions` limits the topics it needs delivered
+   */
+  nodes: SimNode[];
+  /** Directed edges; each edge's `packetLossRate` and `lossModel` govern drops on that link */
   edges: Edge[];
   k: number;
   redundancyFactor: number;
-  packetLoss: number; // 0-100
+  /** GossipSub target mesh degree D; D_low, D_high and D_lazy derive from it */
+  gossipMeshDegree: number;
+  /** Full block size; an RLNC shard carries 1/k of it */
+  blockSizeKB: number;
+  /** Field for RLNC coefficients and payload arithmetic; defaults to GF(2^8) */
+  field?: FieldName;
+  /** Publisher sends the k source symbols uncoded before any coded repair shards */
+  systematic?: boolean;
+  /** Probability each coefficient is nonzero, at the publisher and relays; 1 = dense */
+  codingDensity?: number;
+  /** Block coding (default) or sliding-window coding over the symbol stream */
+  codingMode?: RlncCodingMode;
+  /** Symbols combined per shard in sliding-window mode; defaults to k */
+  windowSize?: number;
+  /**
+   * Nodes tell their neighbors when they reach full rank and senders stop
+   * pushing to them, instead of pushing blindly
+   */
+  feedback?: boolean;
+  /** Preset CPU time per shard at the reference configuration (see `computeCost.ts`) */
+  processingDelayRLNC: number;
+  /** Preset CPU time to validate a reference-size block */
+  processingDelayGossip: number;
+  /** Messages to publish; defaults to a single message from `publisherNodeId` at 0 */
+  messages?: MessageSpec[];
+  /** Bytes the RLNC publisher encodes for each message; defaults to a seeded random sample */
+  payload?: Uint8Array;
+  /** Reseeds this engine's PRNG so the run is reproducible event for event */
+  seed?: string;
 }
 
-/**
- * Reset all engine state and seed initial events for both protocols.
- */
-export function initPropagation(params: InitParams): void {
-  const { publisherNodeId, nodes, edges, k, redundancyFactor, packetLoss } = params;
-
-  // Clear everything
-  eventQueue.clear();
-  rlncTrackers.clear();
-  gossipReceived.clear();
-  gossipForwarded.clear();
-  rlncNodeDeliveryTime.clear();
-  gossipNodeDeliveryTime.clear();
-  rlncRecodePushes.clear();
-  gossipRetries.clear();
-  gossipLastDuplicateSimTime.clear();
-  rlncLastRedundantSimTime.clear();
-  metrics = emptyEngineMetrics();
-  publisherId = publisherNodeId;
-  simK = k;
-  simLossRate = packetLoss / 100;
-  simNodes = nodes;
-
-  // Build edge lookup
-  edgeLookup = new Map();
-  for (const e of edges) {
-    edgeLookup.set(`${e.source}->${e.target}`, e);
-  }
-
-  // Build subscriber list and rank trackers
-  subscriberIds = [];
-  for (const node of nodes) {
-    if (node.id !== publisherNodeId) {
-      subscriberIds.push(node.id);
-      rlncTrackers.set(node.id, new IncrementalRankTracker(k));
-    }
-  }
-
-  // Mark publisher as having the gossip message
-  gossipReceived.add(publisherNodeId);
-  gossipForwarded.add(publisherNodeId);
-
-  const publisher = nodes.find((n) => n.id === publisherNodeId);
-  if (!publisher) return;
-
-  const lossRate = simLossRate;
-
-  // ── RLNC: publisher sends coded shards, compensating for packet loss ──
-  // Real RLNC publishers continuously generate coded shards. We model this
-  // as an initial burst scaled by loss rate, ensuring enough shards survive.
-  const lossCompensation = lossRate > 0 ? 1 / Math.max(1 - lossRate, 0.15) : 1;
-  const totalShards = Math.min(
-    Math.ceil(k * redundancyFactor * lossCompensation),
-    k * 6, // cap to prevent excessive events
-  );
-
-  for (let s = 0; s < totalShards; s++) {
-    const codingVector = Array.from({ length: k }, () => gfRandom(random));
+/** Propagation state of one message in both protocols */
+interface MessageState {
+  id: number;
+  publisherId: string;
+  topic: Topic;
+  publishAt: number;
+  payload: Uint8Array;
+  sources: Uint8Array[];
+  // Sim time each source symbol is released (all `publishAt` for block coding)
+  symbolReleaseMs: number[];
+  // Nodes that need this message delivered; the rest only relay it
+  subscriberIds: Set<string>;
+
+  rlncTrackers: Map<string, IncrementalRankTracker>;
+  // Per-node length of the source prefix decodable so far
+  rlncDecodedPrefix: Map<string, number>;
+  // RLNC: track how many recode rounds each relay has done (cap to prevent explosion)
+  rlncRecodePushes: Map<string, number>;
+  // Feedback mode: peers each node has heard reach full rank
+  rlncPeersSatisfied: Map<string, Set<string>>;
+  // Per-node RLNC reconstruction time (simulated ms)
+  rlncDeliveryTime: Map<string, number>;
+
+  // Track what gossip nodes have received (set of nodeIds that have the message)
+  gossipReceived: Set<string>;
+  // Track which gossip nodes have already forwarded (to prevent infinite loops)
+  gossipForwarded: Set<string>;
+  // GossipSub: peers each node knows already hold the message (sent it or IHAVE'd it)
+  gossipPeersWithMessage: Map<string, Set<string>>;
+  // Per-node GossipSub delivery time (simulated ms)
+  gossipDeliveryTime: Map<string, number>;
+}
 
-    for (const neighborId of publisher.neighbors) {
-      const edge = edgeLookup.get(`${publisherNodeId}->${neighborId}`);
-      if (!edge) continue;
+export class SimulationEngine {
+  private eventQueue = new MinHeap<SimEvent>();
+  private messages: MessageState[] = [];
+  private field: GaloisField = DEFAULT_FIELD;
+  private codingDensity = 1;
+  private codingMode: RlncCodingMode = 'block';
+  private windowSize = 4;
+  private systematic = false;
+  private feedback = false;
+  private redundancyFactor = 1;
+
+  // Track per-node last duplicate arrival simTime (for UI flash effect)
+  private gossipLastDuplicateSimTime = new Map<string, number>();
+  // Track per-node last redundant RLNC shard arrival simTime
+  private rlncLastRedundantSimTime = new Map<string, number>();
+  /** Every arrival processed so far, in processing order */
+  private trace: TraceEvent[] = [];
+
+  // Edges and nodes lookup for fast access
+  private edgeLookup = new Map<string, Edge>();
+  private nodeLookup = new Map<string, SimNode>();
+  // Per-protocol loss state of each directed link (Gilbert–Elliott is stateful)
+  private lossChannels = new Map<string, LossChannel>();
+  // Per-protocol time each directed link finishes its current FIFO backlog
+  private linkBusyUntil = new Map<string, number>();
+  // Per-protocol time each node's CPU finishes its queued work
+  private cpuBusyUntil = new Map<string, number>();
+  private codingCost: CodingCostParams = {
+    k: 4,
+    field: DEFAULT_FIELD.name,
+    symbolBytes: 0,
+    density: 1,
+    processingDelayRLNC: 0,
+  };
+  private processingDelayGossip = 0;
+  // Per-node bytes sent/received for each protocol
+  private nodeBytes = {
+    rlnc: new Map<string, NodeBytes>(),
+    gossipsub: new Map<string, NodeBytes>(),
+  };
 
-      const dropped = random() < lossRate;
-      // Stagger shards by 0.3ms each — small shards serialize quickly
-      const arriveAt = edge.latencyMs + s * 0.3;
+  // GossipSub overlay: mesh peers per node and the heartbeat schedule
+  private gossipMesh = new Map<string, Set<string>>();
+  private gossipParams = gossipMeshParams(6);
+  private gossipHeartbeatPhase = new Map<string, number>();
+
+  private metrics: EngineMetrics = emptyEngineMetrics();
+  // Nodes that subscribe to at least one message in the stream
+  private subscriberIds: string[] = [];
+  private simK = 4;
+  private blockBytes = 0;
+  // Sim time of the event being processed; sends at or before it enter a link queue directly
+  private now = 0;
+
+  /**
+   * @param rng Source of randomness for loss draws and coding vectors.
+   *   Defaults to the shared seeded PRNG; replaced when `init` gets a seed.
+   */
+  constructor(private rng: () => number = random) {}
+
+  /**
+   * Reset all engine state and schedule the publication of every message.
+   */
+  init(params: InitParams): void {
+    const { publisherNodeId, nodes, edges, k } = params;
+
+    this.clear();
+    if (params.seed !== undefined) this.rng = createRng(params.seed);
+    const rng = this.rng;
+
+    this.simK = k;
+    this.blockBytes = params.blockSizeKB * 1024;
+    this.field = FIELDS[params.field ?? DEFAULT_FIELD.name];
+    this.codingDensity = params.codingDensity ?? 1;
+    this.codingMode = params.codingMode ?? 'block';
+    this.windowSize = Math.min(k, Math.max(1, params.windowSize ?? k));
+    this.systematic = params.systematic ?? false;
+    this.feedback = params.feedback ?? false;
+    this.redundancyFactor = params.redundancyFactor;
+    this.codingCost = {
+      k,
+      field: this.field.name,
+      symbolBytes: Math.ceil(this.blockBytes / k),
+      density: this.codingDensity,
+      processingDelayRLNC: params.processingDelayRLNC,
+    };
+    this.processingDelayGossip = params.processingDelayGossip;
+
+    // Build edge and node lookups
+    for (const e of edges) {
+      this.edgeLookup.set(`${e.source}->${e.target}`, e);
+    }
+    for (const node of nodes) {
+      this.nodeLookup.set(node.id, node);
+    }
 
-      eventQueue.push({
-        fireAt: arriveAt,
-        seq: 0,
-        protocol: 'rlnc',
-        type: 'shard_arrive',
-        fromNode: publisherNodeId,
-        toNode: neighborId,
-        shardIndex: s,
-        codingVector: [...codingVector],
-        dropped,
+    // GossipSub overlay and per-node heartbeat phases
+    this.gossipParams = gossipMeshParams(params.gossipMeshDegree);
+    this.gossipMesh = buildGossipMesh(nodes, this.gossipParams, rng);
+    for (const node of nodes) {
+      this.gossipHeartbeatPhase.set(node.id, rng() * GOSSIP_HEARTBEAT_INTERVAL);
+    }
+
+    // Per-message subscriber lists, rank trackers and payloads. Every node
+    // but the publisher tracks rank, since relays recode from what they hold.
+    const specs = params.messages ?? [{ publisherNodeId, publishAt: 0 }];
+    const sliding = this.codingMode === 'sliding-window';
+    specs
+      .filter((spec) => this.nodeLookup.has(spec.publisherNodeId))
+      .sort((a, b) => a.publishAt - b.publishAt)
+      .forEach((spec, id) => {
+        const topic = spec.topic ?? 'beacon_block';
+        const receivers = nodes.filter((n) => n.id !== spec.publisherNodeId);
+        const payload =
+          params.payload ?? Uint8Array.from({ length: RLNC_SAMPLE_PAYLOAD_BYTES }, () => Math.floor(rng() * 256));
+        const sources = splitIntoSymbols(payload, k, this.field);
+        this.messages.push({
+          id,
+          publisherId: spec.publisherNodeId,
+          topic,
+          publishAt: spec.publishAt,
+          payload,
+          sources,
+          symbolReleaseMs: sources.map((_, i) => spec.publishAt + (sliding ? i * RLNC_SYMBOL_INTERVAL : 0)),
+          subscriberIds: new Set(receivers.filter((n) => subscribesTo(n, topic)).map((n) => n.id)),
+          rlncTrackers: new Map(receivers.map((n) => [n.id, new IncrementalRankTracker(k, this.field)])),
+          rlncDecodedPrefix: new Map(),
+          rlncRecodePushes: new Map(),
+          rlncPeersSatisfied: new Map(),
+          rlncDeliveryTime: new Map(),
+          // The publisher has the gossip message from the start
+          gossipReceived: new Set([spec.publisherNodeId]),
+          gossipForwarded: new Set([spec.publisherNodeId]),
+          gossipPeersWithMessage: new Map(),
+          gossipDeliveryTime: new Map(),
+        });
       });
+    this.subscriberIds = nodes
+      .filter((n) => this.messages.some((m) => m.subscriberIds.has(n.id)))
+      .map((n) => n.id);
+
+    // Publications run as events so the publisher's CPU and links serve
+    // the stream in time order
+    for (const msg of this.messages) {
+      const publish = (protocol: 'rlnc' | 'gossipsub', round: number, fireAt: number) =>
+        this.eventQueue.push({
+          protocol,
+          messageId: msg.id,
+          fromNode: msg.publisherId,
+          toNode: msg.publisherId,
+          fireAt,
+          seq: 0,
+          type: 'publish',
+          dropped: false,
+          round,
+        });
+      publish('rlnc', 0, msg.publishAt);
+      publish('gossipsub', 0, msg.publishAt);
+      PUBLISHER_RESEND_TIMES.forEach((delay, i) => publish('rlnc', i + 1, msg.publishAt + delay));
     }
+    this.metrics.messages = this.messageMetrics();
   }
 
-  // ── GossipSub: publisher sends full message to all neighbors ──
-  for (const neighborId of publisher.neighbors) {
-    const edge = edgeLookup.get(`${publisherNodeId}->${neighborId}`);
-    if (!edge) continue;
+  /**
+   * Process all events with fireAt <= simTimeMs.
+   * Returns new particles to animate and updated metrics.
+   */
+  advanceTo(simTimeMs: number): {
+    newParticles: AnimatedParticle[];
+    metrics: EngineMetrics;
+  } {
+    const newParticles: AnimatedParticle[] = [];
+    const metrics = this.metrics;
+
+    while (this.eventQueue.length > 0 && this.eventQueue.peek()!.fireAt <= simTimeMs) {
+      const event = this.eventQueue.pop()!;
+      this.now = event.fireAt;
+
+      if (event.type === 'send') {
+        this.send(event, event.fireAt);
+      } else if (event.type === 'publish') {
+        this.publish(event);
+      } else if (event.type === 'heartbeat') {
+        this.gossipHeartbeat(this.messages[event.messageId], event.toNode, event.fireAt);
+      } else if (event.protocol === 'rlnc') {
+        this.processRLNC(event, newParticles);
+      } else {
+        this.processGossip(event, newParticles);
+      }
+    }
 
-    const dropped = random() < lossRate;
-    eventQueue.push({
-      fireAt: edge.latencyMs,
-      seq: 0,
-      protocol: 'gossipsub',
-      type: 'message_arrive',
-      fromNode: publisherNodeId,
-      toNode: neighborId,
-      dropped,
+    // Check completion
+    metrics.messages = this.messageMetrics();
+    metrics.rlnc.allDone =
+      metrics.messages.length > 0 && metrics.messages.every((m) => m.rlnc.completedAt !== null);
+    metrics.gossipsub.allDone =
+      metrics.messages.length > 0 && metrics.messages.every((m) => m.gossipsub.completedAt !== null);
+
+    const streamDelivery = this.getNodeDeliveryTimes();
+    metrics.rlnc.deliveredNodes = Object.keys(streamDelivery.rlnc);
+    metrics.gossipsub.deliveredNodes = Object.keys(streamDelivery.gossipsub);
+
+    // Compute last delivery times (max across all nodes that DID receive)
+    const rlncLast = this.lastDelivery((m) => m.rlncDeliveryTime);
+    if (rlncLast !== null) metrics.rlnc.lastDeliverySimMs = Math.round(rlncLast * 10) / 10;
+    const gossipLast = this.lastDelivery((m) => m.gossipDeliveryTime);
+    if (gossipLast !== null) metrics.gossipsub.lastDeliverySimMs = Math.round(gossipLast * 10) / 10;
+
+    return { newParticles, metrics: { ...metrics } };
+  }
+
+  /** Latest delivery of any message to any node, or null before the first */
+  private lastDelivery(times: (msg: MessageState) => Map<string, number>): number | null {
+    let maxTime: number | null = null;
+    for (const msg of this.messages) {
+      for (const t of times(msg).values()) {
+        if (maxTime === null || t > maxTime) maxTime = t;
+      }
+    }
+    return maxTime;
+  }
+
+  private messageMetrics(): MessageMetrics[] {
+    const delivery = (times: Map<string, number>, subscribers: number): MessageDelivery => ({
+      delivered: times.size,
+      subscribers,
+      completedAt: times.size >= subscribers && subscribers > 0 ? Math.max(...times.values()) : null,
     });
+    return this.messages.map((msg) => ({
+      id: msg.id,
+      publisherId: msg.publisherId,
+      topic: msg.topic,
+      publishAt: msg.publishAt,
+      rlnc: delivery(msg.rlncDeliveryTime, msg.subscriberIds.size),
+      gossipsub: delivery(msg.gossipDeliveryTime, msg.subscriberIds.size),
+    }));
   }
 
-  // ── GossipSub: publisher retries (models heartbeat retransmission) ──
-  for (let retry = 1; retry <= MAX_GOSSIP_RETRIES; retry++) {
-    for (const neighborId of publisher.neighbors) {
-      const edge = edgeLookup.get(`${publisherNodeId}->${neighborId}`);
-      if (!edge) continue;
+  // ── Publishing ──
 
-      const dropped = random() < lossRate;
-      eventQueue.push({
-        fireAt: edge.latencyMs + retry * GOSSIP_RETRY_INTERVAL,
-        seq: 0,
-        protocol: 'gossipsub',
-        type: 'message_arrive',
-        fromNode: publisherNodeId,
-        toNode: neighborId,
-        dropped,
-      });
+  private publish(event: SimEvent): void {
+    const msg = this.messages[event.messageId];
+    if (event.protocol === 'gossipsub') {
+      this.publishGossip(msg, event.fireAt);
+    } else if (event.round === 0) {
+      this.publishRLNC(msg, event.fireAt);
+    } else {
+      this.resendRLNC(msg, event.fireAt, event.round ?? 0);
+    }
+  }
+
+  /** Shards cover the newest `windowSize` symbols released by the `newest` one */
+  private windowEndingAt(newest: number): { start: number; end: number } {
+    return { start: Math.max(0, newest - this.windowSize + 1), end: newest + 1 };
+  }
+
+  /**
+   * RLNC: publisher sends coded shards, compensating for packet loss.
+   * Real RLNC publishers continuously generate coded shards. We model this
+   * as an initial burst scaled by the stationary loss on the publisher's
+   * links, plus one bad run's drops on bursty links, ensuring enough
+   * shards survive.
+   */
+  private publishRLNC(msg: MessageState, now: number): void {
+    const publisher = this.nodeLookup.get(msg.publisherId);
+    if (!publisher) return;
+    const k = this.simK;
+    const sliding = this.codingMode === 'sliding-window';
+
+    const outgoing = publisher.neighbors
+      .map((id) => this.edgeLookup.get(`${msg.publisherId}->${id}`))
+      .filter((e): e is Edge => e !== undefined);
+    const meanOf = (f: (e: Edge) => number) =>
+      outgoing.length > 0 ? outgoing.reduce((sum, e) => sum + f(e), 0) / outgoing.length : 0;
+    const lossRate = meanOf(stationaryLossRate);
+    const lossCompensation = lossRate > 0 ? 1 / Math.max(1 - lossRate, 0.15) : 1;
+    const totalShards = Math.min(
+      Math.ceil(k * this.redundancyFactor * lossCompensation + meanOf(badRunExcessDrops)),
+      k * 6, // cap to prevent excessive events
+    );
+
+    // Shards queue back to back on each link, so the burst spreads out
+    // over its serialization time rather than a fixed stagger. In systematic
+    // mode the burst leads with the source symbols themselves, so a clean
+    // path delivers them without any decoding work.
+    //
+    // Sliding-window coding instead releases one symbol every
+    // RLNC_SYMBOL_INTERVAL and spreads the burst across the releases; each
+    // shard covers only the newest `windowSize` symbols, so receivers can
+    // decode the stream in order without waiting for all k.
+    let newestSent = -1;
+    for (let s = 0; s < totalShards; s++) {
+      const newest = sliding ? Math.min(k - 1, Math.floor((s * k) / totalShards)) : k - 1;
+      const isSource = this.systematic && (sliding ? newest > newestSent : s < k);
+      newestSent = newest;
+      const packet = isSource
+        ? sourcePacket(msg.sources, sliding ? newest : s)
+        : encodePacket(msg.sources, this.rng, this.field, {
+            density: this.codingDensity,
+            window: sliding ? this.windowEndingAt(newest) : undefined,
+          });
+      const releasedAt = Math.max(now, msg.symbolReleaseMs[newest]);
+      const readyAt = isSource
+        ? releasedAt
+        : this.runCpu('rlnc', msg, msg.publisherId, releasedAt, recodeMs(this.codingCost, k));
+
+      for (const neighborId of publisher.neighbors) {
+        this.send({
+          protocol: 'rlnc',
+          messageId: msg.id,
+          fromNode: msg.publisherId,
+          toNode: neighborId,
+          shardIndex: s,
+          packet,
+        }, readyAt);
+      }
     }
   }
 
-  // ── Publisher periodic resend rounds (both protocols) ──
-  // Ensures delivery under high loss by sending fresh bursts at intervals.
-  for (const resendTime of PUBLISHER_RESEND_TIMES) {
-    // RLNC resend: fresh coded shards
+  /**
+   * RLNC publisher periodic resend round.
+   * Ensures delivery under high loss by sending fresh coded shards at
+   * intervals. GossipSub has no equivalent; it recovers losses through
+   * IHAVE/IWANT. Sliding windows step through the whole stream so every
+   * symbol gets repair coverage. In feedback mode the round only covers
+   * neighbors that haven't signalled full rank, and is skipped without
+   * any encoding once none are left.
+   */
+  private resendRLNC(msg: MessageState, now: number, round: number): void {
+    const publisher = this.nodeLookup.get(msg.publisherId);
+    if (!publisher) return;
+    const k = this.simK;
+    const sliding = this.codingMode === 'sliding-window';
     const resendShards = Math.ceil(k * 1.5);
+    const targets = publisher.neighbors.filter((id) => !this.knownSatisfied(msg, msg.publisherId, id));
+    this.metrics.rlnc.suppressedShards += resendShards * (publisher.neighbors.length - targets.length);
+    if (targets.length === 0) return;
+
     for (let s = 0; s < resendShards; s++) {
-      const codingVector = Array.from({ length: k }, () => gfRandom(random));
-      for (const neighborId of publisher.neighbors) {
-        const edge = edgeLookup.get(`${publisherNodeId}->${neighborId}`);
-        if (!edge) continue;
-        const dropped = random() < lossRate;
-        eventQueue.push({
-          fireAt: resendTime + edge.latencyMs + s * 0.3,
-          seq: 0,
+      const packet = encodePacket(msg.sources, this.rng, this.field, {
+        density: this.codingDensity,
+        window: sliding ? this.windowEndingAt(s % k) : undefined,
+      });
+      const readyAt = this.runCpu('rlnc', msg, msg.publisherId, now, recodeMs(this.codingCost, k));
+      for (const neighborId of targets) {
+        this.send({
           protocol: 'rlnc',
-          type: 'shard_arrive',
-          fromNode: publisherNodeId,
+          messageId: msg.id,
+          fromNode: msg.publisherId,
           toNode: neighborId,
-          shardIndex: 1000 + resendTime + s,
-          codingVector: [...codingVector],
-          dropped,
-        });
+          shardIndex: 1000 * round + s,
+          packet,
+        }, readyAt);
       }
     }
+  }
 
-    // GossipSub resend
+  /** GossipSub: flood publish (v1.1 default) to every peer, not just the mesh */
+  private publishGossip(msg: MessageState, now: number): void {
+    const publisher = this.nodeLookup.get(msg.publisherId);
+    if (!publisher) return;
     for (const neighborId of publisher.neighbors) {
-      const edge = edgeLookup.get(`${publisherNodeId}->${neighborId}`);
-      if (!edge) continue;
-      const dropped = random() < lossRate;
-      eventQueue.push({
-        fireAt: resendTime + edge.latencyMs,
-        seq: 0,
-        protocol: 'gossipsub',
-        type: 'message_arrive',
-        fromNode: publisherNodeId,
-        toNode: neighborId,
-        dropped,
-      });
+      this.send({ protocol: 'gossipsub', messageId: msg.id, fromNode: msg.publisherId, toNode: neighborId }, now);
     }
+    this.scheduleGossipHeartbeats(msg, msg.publisherId, now);
   }
-}
 
-/**
- * Process all events with fireAt <= simTimeMs.
- * Returns new particles to animate and updated metrics.
- */
-export function advanceTo(
-  simTimeMs: number,
-  packetLoss: number,
-  nodes: { id: string; neighbors: string[] }[],
-): {
-  newParticles: AnimatedParticle[];
-  metrics: EngineMetrics;
-} {
-  const newParticles: AnimatedParticle[] = [];
-  const lossRate = packetLoss / 100;
-
-  while (eventQueue.length > 0 && eventQueue.peek()!.fireAt <= simTimeMs) {
-    const event = eventQueue.pop()!;
-
-    if (event.protocol === 'rlnc') {
-      processRLNC(event, lossRate, nodes, newParticles);
+  // ── RLNC event processing ──
+
+  private processRLNC(event: SimEvent, newParticles: AnimatedParticle[]): void {
+    const metrics = this.metrics;
+    const msg = this.messages[event.messageId];
+    if (event.control) {
+      this.processRLNCFeedback(msg, event);
+      return;
+    }
+
+    metrics.rlnc.totalTransmissions++;
+    if (event.fromNode !== msg.publisherId) metrics.rlnc.recodedTransmissions++;
+    if (event.dropped) metrics.rlnc.droppedTransmissions++;
+    this.recordBytes(event);
+
+    // Create particle for visual animation.
+    // Start at current simTime and use an extended duration so the particle
+    // is visible for many frames (the actual delivery already happened).
+    const edge = this.edgeLookup.get(`${event.fromNode}->${event.toNode}`);
+    const visualDuration = Math.max((edge?.latencyMs ?? 30) * 10, 500);
+    const tracker = msg.rlncTrackers.get(event.toNode);
+    const isRedundant = !event.dropped && (tracker?.isFullRank ?? false);
+    newParticles.push({
+      id: `rlnc-${msg.id}-${event.fromNode}-${event.toNode}-${event.shardIndex}-${event.fireAt}`,
+      protocol: 'rlnc',
+      fromNode: event.fromNode,
+      toNode: event.toNode,
+      progress: 0,
+      duration: visualDuration,
+      startTime: event.fireAt,
+      shardIndex: event.shardIndex,
+      dropped: event.dropped,
+      isRedundant,
+    });
+
+    if (event.dropped) {
+      this.recordTrace(event, null, tracker?.rank ?? null);
+      return;
+    }
+
+    if (!tracker || tracker.isFullRank) {
+      this.recordTrace(event, 'redundant', tracker?.rank ?? null);
+      // Record time for UI redundancy indicator
+      if (tracker?.isFullRank) {
+        this.rlncLastRedundantSimTime.set(event.toNode, event.fireAt);
+      }
+      return;
+    }
+
+    // Every shard reaching a node still decoding costs an elimination
+    // pass, innovative or not
+    const packet = event.packet!;
+    const eliminatedAt = this.runCpu(
+      'rlnc',
+      msg,
+      event.toNode,
+      event.fireAt,
+      eliminationMs(this.codingCost, tracker.rank),
+    );
+    const wasUseful = tracker.addRow(packet.coefficients, packet.data);
+    this.recordTrace(event, wasUseful ? 'innovative' : 'redundant', tracker.rank);
+    if (wasUseful) {
+      metrics.rlnc.usefulTransmissions++;
+      if (event.fromNode !== msg.publisherId) metrics.rlnc.innovativeRecodedTransmissions++;
+      if (msg.subscriberIds.has(event.toNode)) {
+        this.recordInOrderProgress(msg, event.toNode, tracker, eliminatedAt);
+      }
+      // Relays forward before spending CPU on their own decode
+      this.forwardRecoded(msg, event, eliminatedAt);
     } else {
-      processGossip(event, lossRate, nodes, newParticles);
+      metrics.rlnc.linearlyDependent++;
+      this.replaceDependentShard(msg, event, tracker, eliminatedAt);
+    }
+
+    if (tracker.isFullRank && this.feedback) this.signalRankReached(msg, event.toNode, eliminatedAt);
+
+    // Record delivery time for a subscriber once decoded, and check the
+    // decoded bytes. Non-subscribers stop at full rank without decoding.
+    if (tracker.isFullRank && msg.subscriberIds.has(event.toNode) && !msg.rlncDeliveryTime.has(event.toNode)) {
+      const decodedAt = this.runCpu('rlnc', msg, event.toNode, eliminatedAt, decodeMs(this.codingCost));
+      msg.rlncDeliveryTime.set(event.toNode, decodedAt);
+
+      const symbols = tracker.decode();
+      const decoded = symbols && joinSymbols(symbols, msg.payload.length);
+      if (decoded && bytesEqual(decoded, msg.payload)) {
+        metrics.rlnc.verifiedNodes++;
+      } else {
+        metrics.rlnc.decodeFailures++;
+      }
     }
   }
 
-  // Check completion
-  metrics.rlnc.allDone =
-    subscriberIds.length > 0 &&
-    subscriberIds.every((id) => rlncTrackers.get(id)?.isFullRank ?? false);
+  /**
+   * Recode and forward to neighbors (relay behavior).
+   * In real RLNC, relays continuously generate new coded shards.
+   * We model this by sending 2 coded shards per innovative incoming
+   * shard, plus scheduling periodic recode pushes. A shard that didn't
+   * grow the relay's subspace gives it nothing new to pass on, so only
+   * innovative receipts call this.
+   */
+  private forwardRecoded(msg: MessageState, event: SimEvent, readyAt: number): void {
+    const node = this.nodeLookup.get(event.toNode);
+    if (!node) return;
+    const rank = msg.rlncTrackers.get(event.toNode)?.rank ?? 0;
+
+    // Enough rounds to pass on all k dimensions plus the redundancy margin;
+    // a fixed cap below k starves every node downstream of full rank
+    const pushCount = msg.rlncRecodePushes.get(event.toNode) ?? 0;
+    if (pushCount >= Math.ceil(this.simK * Math.max(this.redundancyFactor, 1))) return;
+    msg.rlncRecodePushes.set(event.toNode, pushCount + 1);
 
-  metrics.gossipsub.allDone =
-    subscriberIds.length > 0 &&
-    subscriberIds.every((id) => gossipReceived.has(id));
+    for (const neighborId of node.neighbors) {
+      if (neighborId === event.fromNode) continue;
+      if (neighborId === msg.publisherId) continue;
+      const neighborTracker = msg.rlncTrackers.get(neighborId);
+      if (neighborTracker?.isFullRank) continue;
+
+      // Send 2 coded shards: immediate recode + delayed push
+      // This models continuous recoding behavior. Both are computed now;
+      // the push just waits for its slot.
+      for (let batch = 0; batch < 2; batch++) {
+        const recodedAt = this.runCpu('rlnc', msg, event.toNode, readyAt, recodeMs(this.codingCost, rank));
+        this.send({
+          protocol: 'rlnc',
+          messageId: msg.id,
+          fromNode: event.toNode,
+          toNode: neighborId,
+          shardIndex: (event.shardIndex ?? 0) + batch * 100,
+        }, Math.max(recodedAt, readyAt + batch * RLNC_PUSH_INTERVAL));
+      }
+    }
+  }
 
-  // Compute last delivery times (max across all nodes that DID receive)
-  if (rlncNodeDeliveryTime.size > 0) {
-    let maxTime = 0;
-    for (const t of rlncNodeDeliveryTime.values()) {
-      if (t > maxTime) maxTime = t;
+  /**
+   * A shard that added nothing to a node still short of full rank is
+   * replaced by its sender, as long as the sender holds something the node
+   * lacks. Pushes are counted, so without this a sparse or small-field mix
+   * can leave a node stalled below full rank on a lossless network. The
+   * publisher re-encodes around the first symbol the node can't decode yet.
+   */
+  private replaceDependentShard(
+    msg: MessageState,
+    event: SimEvent,
+    tracker: IncrementalRankTracker,
+    simTime: number,
+  ): void {
+    if (tracker.isFullRank) return;
+    const transmission = {
+      protocol: 'rlnc' as const,
+      messageId: msg.id,
+      fromNode: event.fromNode,
+      toNode: event.toNode,
+      shardIndex: event.shardIndex,
+    };
+
+    if (event.fromNode === msg.publisherId) {
+      const missing = tracker.decodablePrefix();
+      const packet = encodePacket(msg.sources, this.rng, this.field, {
+        density: this.codingDensity,
+        window: this.codingMode === 'sliding-window' ? this.windowEndingAt(missing) : undefined,
+      });
+      const releasedAt = Math.max(simTime, msg.symbolReleaseMs[missing]);
+      const readyAt = this.runCpu('rlnc', msg, msg.publisherId, releasedAt, recodeMs(this.codingCost, this.simK));
+      this.send({ ...transmission, packet }, readyAt);
+      return;
     }
-    metrics.rlnc.lastDeliverySimMs = Math.round(maxTime * 10) / 10;
+
+    const sender = msg.rlncTrackers.get(event.fromNode);
+    if (!sender?.basis().some((row) => !tracker.spans(row.coefficients))) return;
+    this.send(transmission, this.runCpu('rlnc', msg, event.fromNode, simTime, recodeMs(this.codingCost, sender.rank)));
   }
 
-  if (gossipNodeDeliveryTime.size > 0) {
-    let maxTime = 0;
-    for (const t of gossipNodeDeliveryTime.values()) {
-      if (t > maxTime) maxTime = t;
+  /** Feedback mode: tell every neighbor this node needs no more shards */
+  private signalRankReached(msg: MessageState, nodeId: string, simTime: number): void {
+    for (const neighborId of this.nodeLookup.get(nodeId)?.neighbors ?? []) {
+      this.send(
+        { protocol: 'rlnc', messageId: msg.id, fromNode: nodeId, toNode: neighborId, control: 'rank' },
+        simTime,
+      );
     }
-    metrics.gossipsub.lastDeliverySimMs = Math.round(maxTime * 10) / 10;
   }
 
-  return { newParticles, metrics: { ...metrics } };
-}
+  private processRLNCFeedback(msg: MessageState, event: SimEvent): void {
+    this.metrics.rlnc.feedbackMessages++;
+    this.recordBytes(event);
+    this.recordTrace(event, null, null);
+    if (event.dropped) return;
+    let satisfied = msg.rlncPeersSatisfied.get(event.toNode);
+    if (!satisfied) {
+      satisfied = new Set();
+      msg.rlncPeersSatisfied.set(event.toNode, satisfied);
+    }
+    satisfied.add(event.fromNode);
+  }
 
-// ── RLNC event processing ──
-
-function processRLNC(
-  event: SimEvent,
-  lossRate: number,
-  nodes: { id: string; neighbors: string[] }[],
-  newParticles: AnimatedParticle[],
-): void {
-  metrics.rlnc.totalTransmissions++;
-
-  // Create particle for visual animation.
-  // Start at current simTime and use an extended duration so the particle
-  // is visible for many frames (the actual delivery already happened).
-  const edge = edgeLookup.get(`${event.fromNode}->${event.toNode}`);
-  const visualDuration = Math.max((edge?.latencyMs ?? 30) * 10, 500);
-  const tracker = rlncTrackers.get(event.toNode);
-  const isRedundant = !event.dropped && (tracker?.isFullRank ?? false);
-  newParticles.push({
-    id: `rlnc-${event.fromNode}-${event.toNode}-${event.shardIndex}-${event.fireAt}`,
-    protocol: 'rlnc',
-    fromNode: event.fromNode,
-    toNode: event.toNode,
-    progress: 0,
-    duration: visualDuration,
-    startTime: event.fireAt,
-    shardIndex: event.shardIndex,
-    dropped: event.dropped,
-    isRedundant,
-  });
-
-  if (event.dropped) return;
-
-  if (!tracker || tracker.isFullRank) {
-    // Record time for UI redundancy indicator
-    if (tracker?.isFullRank) {
-      rlncLastRedundantSimTime.set(event.toNode, event.fireAt);
-    }
-    return;
-  }
-
-  const wasUseful = tracker.addRow(event.codingVector!);
-  if (wasUseful) {
-    metrics.rlnc.usefulTransmissions++;
-  }
-
-  // Record delivery time for this node
-  if (tracker.isFullRank && !rlncNodeDeliveryTime.has(event.toNode)) {
-    rlncNodeDeliveryTime.set(event.toNode, event.fireAt);
-    metrics.rlnc.deliveredNodes.push(event.toNode);
-  }
-
-  // Recode and forward to neighbors (relay behavior)
-  // In real RLNC, relays continuously generate new coded shards.
-  // We model this by sending 2 coded shards per incoming shard,
-  // plus scheduling periodic recode pushes.
-  const node = nodes.find((n) => n.id === event.toNode);
-  if (!node) return;
-
-  const pushCount = rlncRecodePushes.get(event.toNode) ?? 0;
-  if (pushCount >= MAX_RLNC_PUSHES_PER_NODE) return;
-  rlncRecodePushes.set(event.toNode, pushCount + 1);
-
-  for (const neighborId of node.neighbors) {
-    if (neighborId === event.fromNode) continue;
-    if (neighborId === publisherId) continue;
-    const neighborTracker = rlncTrackers.get(neighborId);
-    if (neighborTracker?.isFullRank) continue;
-
-    const neighborEdge = edgeLookup.get(`${event.toNode}->${neighborId}`);
-    if (!neighborEdge) continue;
-
-    // Send 2 coded shards: immediate recode + delayed push
-    // This models continuous recoding behavior
-    for (let batch = 0; batch < 2; batch++) {
-      const recodedVector = Array.from({ length: simK }, () => gfRandom(random));
-      const dropped = random() < lossRate;
-
-      eventQueue.push({
-        fireAt: event.fireAt + neighborEdge.latencyMs + 0.5 + batch * RLNC_PUSH_INTERVAL,
-        seq: 0,
-        protocol: 'rlnc',
-        type: 'shard_arrive',
-        fromNode: event.toNode,
-        toNode: neighborId,
-        shardIndex: (event.shardIndex ?? 0) + batch * 100,
-        codingVector: recodedVector,
-        dropped,
-      });
+  /** Whether `nodeId` has heard that `peerId` reached full rank */
+  private knownSatisfied(msg: MessageState, nodeId: string, peerId: string): boolean {
+    return msg.rlncPeersSatisfied.get(nodeId)?.has(peerId) ?? false;
+  }
+
+  /**
+   * Recode from the relay's received subspace; empty until it holds something.
+   * Relays mix densely whatever the coding density: a sparse mix of a
+   * low-rank buffer often carries nothing new, and relays only push so
+   * many times, so a peer could stall short of full rank for good.
+   */
+  private recodeFrom(msg: MessageState, nodeId: string): CodedPacket | undefined {
+    const basis = msg.rlncTrackers.get(nodeId)?.basis() ?? [];
+    return basis.length > 0 ? recodePacket(basis, this.rng, this.field) : undefined;
+  }
+
+  /** Credit each source symbol a node can now decode in order with its latency since release */
+  private recordInOrderProgress(
+    msg: MessageState,
+    nodeId: string,
+    tracker: IncrementalRankTracker,
+    simTime: number,
+  ): void {
+    const before = msg.rlncDecodedPrefix.get(nodeId) ?? 0;
+    const prefix = tracker.decodablePrefix();
+    for (let i = before; i < prefix; i++) {
+      this.metrics.rlnc.inOrderSymbols++;
+      this.metrics.rlnc.inOrderLatencyTotalMs += simTime - msg.symbolReleaseMs[i];
     }
+    msg.rlncDecodedPrefix.set(nodeId, prefix);
   }
-}
 
-// ── GossipSub event processing ──
-
-function processGossip(
-  event: SimEvent,
-  lossRate: number,
-  nodes: { id: string; neighbors: string[] }[],
-  newParticles: AnimatedParticle[],
-): void {
-  metrics.gossipsub.totalTransmissions++;
-
-  const edge = edgeLookup.get(`${event.fromNode}->${event.toNode}`);
-  const gVisualDuration = Math.max((edge?.latencyMs ?? 30) * 10, 500);
-  const gIsRedundant = !event.dropped && gossipReceived.has(event.toNode);
-  newParticles.push({
-    id: `gossip-${event.fromNode}-${event.toNode}-${event.fireAt}`,
-    protocol: 'gossipsub',
-    fromNode: event.fromNode,
-    toNode: event.toNode,
-    progress: 0,
-    duration: gVisualDuration,
-    startTime: event.fireAt,
-    dropped: event.dropped,
-    isRedundant: gIsRedundant,
-  });
-
-  if (event.dropped) return;
-
-  if (gossipReceived.has(event.toNode)) {
-    // Duplicate delivery — record time for UI flash
-    metrics.gossipsub.duplicates++;
-    gossipLastDuplicateSimTime.set(event.toNode, event.fireAt);
-    return;
-  }
-
-  // First delivery
-  metrics.gossipsub.usefulTransmissions++;
-  gossipReceived.add(event.toNode);
-  gossipNodeDeliveryTime.set(event.toNode, event.fireAt);
-  metrics.gossipsub.deliveredNodes.push(event.toNode);
-
-  // Forward to all neighbors except sender (if not already forwarded)
-  if (gossipForwarded.has(event.toNode)) return;
-  gossipForwarded.add(event.toNode);
-
-  const node = nodes.find((n) => n.id === event.toNode);
-  if (!node) return;
-
-  const storeForwardDelay = simK * 1.5 + 1;
-
-  for (const neighborId of node.neighbors) {
-    if (neighborId === event.fromNode) continue;
-
-    const neighborEdge = edgeLookup.get(`${event.toNode}->${neighborId}`);
-    if (!neighborEdge) continue;
-
-    const dropped = random() < lossRate;
-    eventQueue.push({
-      fireAt: event.fireAt + neighborEdge.latencyMs + storeForwardDelay,
-      seq: 0,
+  // ── GossipSub event processing ──
+
+  private processGossip(event: SimEvent, newParticles: AnimatedParticle[]): void {
+    const metrics = this.metrics;
+    const msg = this.messages[event.messageId];
+    if (event.control) {
+      this.processGossipControl(msg, event);
+      return;
+    }
+
+    metrics.gossipsub.totalTransmissions++;
+    if (event.dropped) metrics.gossipsub.droppedTransmissions++;
+    this.recordBytes(event);
+
+    const edge = this.edgeLookup.get(`${event.fromNode}->${event.toNode}`);
+    const gVisualDuration = Math.max((edge?.latencyMs ?? 30) * 10, 500);
+    const gIsRedundant = !event.dropped && msg.gossipReceived.has(event.toNode);
+    newParticles.push({
+      id: `gossip-${msg.id}-${event.fromNode}-${event.toNode}-${event.fireAt}`,
       protocol: 'gossipsub',
-      type: 'message_arrive',
-      fromNode: event.toNode,
-      toNode: neighborId,
-      dropped,
+      fromNode: event.fromNode,
+      toNode: event.toNode,
+      progress: 0,
+      duration: gVisualDuration,
+      startTime: event.fireAt,
+      dropped: event.dropped,
+      isRedundant: gIsRedundant,
     });
-  }
 
-  // Schedule retransmission retries (models IHAVE/IWANT heartbeat)
-  // Nodes that received the message retry to ALL neighbors in case
-  // previous deliveries were dropped.
-  const retryCount = gossipRetries.get(event.toNode) ?? 0;
-  if (retryCount < MAX_GOSSIP_RETRIES) {
-    gossipRetries.set(event.toNode, retryCount + 1);
+    this.recordTrace(event, event.dropped ? null : gIsRedundant ? 'redundant' : 'innovative', null);
+    if (event.dropped) return;
+    this.peersWithMessage(msg, event.toNode).add(event.fromNode);
 
-    for (const neighborId of node.neighbors) {
-      const neighborEdge = edgeLookup.get(`${event.toNode}->${neighborId}`);
-      if (!neighborEdge) continue;
+    if (msg.gossipReceived.has(event.toNode)) {
+      // Duplicate delivery — record time for UI flash
+      metrics.gossipsub.duplicates++;
+      this.gossipLastDuplicateSimTime.set(event.toNode, event.fireAt);
+      return;
+    }
+
+    // First delivery: validate the block, then deliver it (to a subscriber)
+    // and forward it. Relays must validate before forwarding too.
+    metrics.gossipsub.usefulTransmissions++;
+    msg.gossipReceived.add(event.toNode);
+    const validatedAt = this.runCpu(
+      'gossipsub',
+      msg,
+      event.toNode,
+      event.fireAt,
+      gossipValidateMs(this.processingDelayGossip, this.blockBytes),
+    );
+    if (msg.subscriberIds.has(event.toNode)) msg.gossipDeliveryTime.set(event.toNode, validatedAt);
+
+    // Eager push to mesh peers that aren't known to have it yet
+    if (msg.gossipForwarded.has(event.toNode)) return;
+    msg.gossipForwarded.add(event.toNode);
+
+    // Store-and-forward cost is the full block's serialization on each
+    // outgoing link, applied by the link queues.
+    const forwardAt = validatedAt;
+    const known = this.peersWithMessage(msg, event.toNode);
+
+    for (const peerId of this.gossipMesh.get(event.toNode) ?? []) {
+      if (known.has(peerId)) continue;
+      this.send({ protocol: 'gossipsub', messageId: msg.id, fromNode: event.toNode, toNode: peerId }, forwardAt);
+    }
+
+    this.scheduleGossipHeartbeats(msg, event.toNode, forwardAt);
+  }
 
-      const dropped = random() < lossRate;
-      eventQueue.push({
-        fireAt: event.fireAt + GOSSIP_RETRY_INTERVAL + neighborEdge.latencyMs + storeForwardDelay,
+  /**
+   * IHAVE: the receiver learns the sender has the block and, if it is
+   * still missing it, asks for it with IWANT. IWANT: the sender of the
+   * IHAVE replies with the full block.
+   */
+  private processGossipControl(msg: MessageState, event: SimEvent): void {
+    this.metrics.gossipsub.controlMessages++;
+    this.recordBytes(event);
+    this.recordTrace(event, null, null);
+    if (event.dropped) return;
+
+    const node = event.toNode;
+    if (event.control === 'ihave') {
+      this.peersWithMessage(msg, node).add(event.fromNode);
+      if (msg.gossipReceived.has(node)) return;
+      this.send(
+        { protocol: 'gossipsub', messageId: msg.id, fromNode: node, toNode: event.fromNode, control: 'iwant' },
+        event.fireAt,
+      );
+    } else if (msg.gossipReceived.has(node)) {
+      this.send({ protocol: 'gossipsub', messageId: msg.id, fromNode: node, toNode: event.fromNode }, event.fireAt);
+    }
+  }
+
+  /**
+   * Queue the heartbeats during which `nodeId` still advertises the message:
+   * the next GOSSIP_HISTORY_GOSSIP ticks of its own heartbeat after `fromTime`.
+   */
+  private scheduleGossipHeartbeats(msg: MessageState, nodeId: string, fromTime: number): void {
+    const phase = this.gossipHeartbeatPhase.get(nodeId) ?? 0;
+    const first = Math.max(0, Math.ceil((fromTime - phase) / GOSSIP_HEARTBEAT_INTERVAL));
+    for (let i = 0; i < GOSSIP_HISTORY_GOSSIP; i++) {
+      this.eventQueue.push({
+        fireAt: phase + (first + i) * GOSSIP_HEARTBEAT_INTERVAL,
         seq: 0,
         protocol: 'gossipsub',
-        type: 'message_arrive',
-        fromNode: event.toNode,
-        toNode: neighborId,
-        dropped,
+        messageId: msg.id,
+        type: 'heartbeat',
+        fromNode: nodeId,
+        toNode: nodeId,
+        dropped: false,
       });
     }
   }
-}
 
-// ── Query helpers ──
+  /**
+   * Send IHAVE to up to D_lazy random non-mesh peers not known to have the
+   * message, and to every mesh peer not known to have it: an eager push
+   * may have been lost, and this is the only repair GossipSub has.
+   */
+  private gossipHeartbeat(msg: MessageState, nodeId: string, now: number): void {
+    const node = this.nodeLookup.get(nodeId);
+    if (!node) return;
+
+    const mesh = this.gossipMesh.get(nodeId);
+    const known = this.peersWithMessage(msg, nodeId);
+    const unknown = node.neighbors.filter((id) => !known.has(id));
+    const lazy = unknown.filter((id) => !mesh?.has(id));
+    const targets = [
+      ...unknown.filter((id) => mesh?.has(id)),
+      ...shuffle(lazy, this.rng).slice(0, this.gossipParams.dLazy),
+    ];
+
+    for (const peerId of targets) {
+      this.send({ protocol: 'gossipsub', messageId: msg.id, fromNode: nodeId, toNode: peerId, control: 'ihave' }, now);
+    }
+  }
 
-export function hasRemainingEvents(): boolean {
-  return eventQueue.length > 0;
-}
+  private peersWithMessage(msg: MessageState, nodeId: string): Set<string> {
+    let peers = msg.gossipPeersWithMessage.get(nodeId);
+    if (!peers) {
+      peers = new Set();
+      msg.gossipPeersWithMessage.set(nodeId, peers);
+    }
+    return peers;
+  }
 
-export function nextEventTime(): number | null {
-  const next = eventQueue.peek();
-  return next ? next.fireAt : null;
-}
+  // ── Node CPUs ──
+
+  /**
+   * Run `costMs` of work (at reference speed) on a node's CPU for one
+   * protocol, queued FIFO behind its earlier work. Returns when it finishes.
+   */
+  private runCpu(
+    protocol: 'rlnc' | 'gossipsub',
+    msg: MessageState,
+    nodeId: string,
+    readyAt: number,
+    costMs: number,
+  ): number {
+    const key = `${protocol}:${nodeId}`;
+    const speed = this.nodeLookup.get(nodeId)?.cpuSpeed ?? 1;
+    const finish = Math.max(readyAt, this.cpuBusyUntil.get(key) ?? 0) + costMs / speed;
+    this.cpuBusyUntil.set(key, finish);
+    this.metrics[protocol].cpuTimeMs += costMs / speed;
+    if (this.relaysOnly(msg, nodeId)) this.metrics[protocol].nonSubscriberCpuMs += costMs / speed;
+    return finish;
+  }
 
-export function getRLNCRank(nodeId: string): number {
-  return rlncTrackers.get(nodeId)?.rank ?? 0;
-}
+  /** Whether `nodeId` handles `msg` purely as a relay */
+  private relaysOnly(msg: MessageState, nodeId: string): boolean {
+    return nodeId !== msg.publisherId && !msg.subscriberIds.has(nodeId);
+  }
 
-export function isRLNCReconstructed(nodeId: string): boolean {
-  return rlncTrackers.get(nodeId)?.isFullRank ?? false;
-}
+  // ── Link queues ──
+
+  /**
+   * Put a transmission on its directed link at `sendAt`.
+   * Future sends are deferred through a `send` event so each link's FIFO
+   * only ever sees packets in time order; the arrival is scheduled once
+   * the packet has waited for the backlog and been serialized.
+   */
+  private send(tx: Transmission, sendAt: number): void {
+    if (sendAt > this.now) {
+      this.eventQueue.push({ ...tx, fireAt: sendAt, seq: 0, type: 'send', dropped: false });
+      return;
+    }
 
-export function hasGossipMessage(nodeId: string): boolean {
-  return gossipReceived.has(nodeId);
-}
+    const edge = this.edgeLookup.get(`${tx.fromNode}->${tx.toNode}`);
+    if (!edge) return;
 
-export function getEngineMetrics(): EngineMetrics {
-  return { ...metrics };
-}
+    const isShard = tx.protocol === 'rlnc' && !tx.control;
+    if (isShard && this.knownSatisfied(this.messages[tx.messageId], tx.fromNode, tx.toNode)) {
+      this.metrics.rlnc.suppressedShards++;
+      return;
+    }
 
-export function getGossipLastDuplicateTime(nodeId: string): number | null {
-  return gossipLastDuplicateSimTime.get(nodeId) ?? null;
-}
+    // Relays recode from whatever they hold at the moment the shard is sent
+    const packet = isShard && !tx.packet
+      ? this.recodeFrom(this.messages[tx.messageId], tx.fromNode)
+      : tx.packet;
+    if (isShard && !packet) return;
+
+    const linkKey = `${tx.protocol}:${edge.id}`;
+    const start = Math.max(sendAt, this.linkBusyUntil.get(linkKey) ?? 0);
+    const finish = start + this.serializationMs(tx, edge);
+    this.linkBusyUntil.set(linkKey, finish);
+
+    const metrics = this.metrics[tx.protocol];
+    metrics.maxQueueDelayMs = Math.max(metrics.maxQueueDelayMs, start - sendAt);
+
+    this.eventQueue.push({
+      protocol: tx.protocol,
+      messageId: tx.messageId,
+      fromNode: tx.fromNode,
+      toNode: tx.toNode,
+      shardIndex: tx.shardIndex,
+      packet,
+      control: tx.control,
+      fireAt: finish + edge.latencyMs,
+      seq: 0,
+      type: tx.protocol === 'rlnc' ? 'shard_arrive' : 'message_arrive',
+      dropped: this.isDropped(edge, tx.protocol),
+      sentAt: start,
+    });
+  }
 
-export function getRLNCLastRedundantTime(nodeId: string): number | null {
-  return rlncLastRedundantSimTime.get(nodeId) ?? null;
-}
+  /** Wire size of one packet: a coded shard for RLNC, the whole block or a control message for GossipSub */
+  private payloadBytes(tx: Transmission): number {
+    if (tx.protocol === 'rlnc') {
+      return tx.control ? RLNC_FEEDBACK_BYTES : rlncShardBytes(this.blockBytes, this.simK, this.field);
+    }
+    return tx.control ? GOSSIP_CONTROL_BYTES : this.blockBytes;
+  }
+
+  /** Time to clock one packet onto `edge` */
+  private serializationMs(tx: Transmission, edge: Edge): number {
+    return (this.payloadBytes(tx) * 8) / (edge.bandwidthMbps * 1000);
+  }
+
+  /** Charge a processed transmission to the protocol totals and both endpoints */
+  private recordBytes(event: SimEvent): void {
+    const bytes = this.payloadBytes(event);
+    const metrics = this.metrics[event.protocol];
+    const perNode = this.nodeBytes[event.protocol];
+    const counters = (nodeId: string): NodeBytes => {
+      let c = perNode.get(nodeId);
+      if (!c) {
+        c = { sent: 0, received: 0 };
+        perNode.set(nodeId, c);
+      }
+      return c;
+    };
+
+    const msg = this.messages[event.messageId];
+
+    metrics.bytesSent += bytes;
+    counters(event.fromNode).sent += bytes;
+    if (this.relaysOnly(msg, event.fromNode)) metrics.nonSubscriberBytes += bytes;
+    if (event.dropped) return;
+    metrics.bytesReceived += bytes;
+    counters(event.toNode).received += bytes;
+    if (this.relaysOnly(msg, event.toNode)) metrics.nonSubscriberBytes += bytes;
+  }
+
+  private recordTrace(event: SimEvent, outcome: TraceEvent['outcome'], rankAfter: number | null): void {
+    this.trace.push({
+      time: event.fireAt,
+      sentAt: event.sentAt ?? event.fireAt,
+      protocol: event.protocol,
+      messageId: event.messageId,
+      from: event.fromNode,
+      to: event.toNode,
+      kind: event.control ?? (event.protocol === 'rlnc' ? 'shard' : 'block'),
+      bytes: this.payloadBytes(event),
+      dropped: event.dropped,
+      outcome,
+      rankAfter,
+    });
+  }
+
+  /**
+   * Draw a loss outcome for one transmission on a directed edge.
+   * Each protocol gets its own channel state so bursts on one side
+   * don't leak into the other's run.
+   */
+  private isDropped(edge: Edge, protocol: 'rlnc' | 'gossipsub'): boolean {
+    const key = `${protocol}:${edge.id}`;
+    let channel = this.lossChannels.get(key);
+    if (!channel) {
+      channel = new LossChannel(edge);
+      this.lossChannels.set(key, channel);
+    }
+
+    const dropped = channel.transmit(this.rng);
+    if (dropped) {
+      const loss = this.metrics[protocol];
+      if (channel.dropRun === 1) loss.lossBursts++;
+      loss.maxLossBurst = Math.max(loss.maxLossBurst, channel.dropRun);
+    }
+    return dropped;
+  }
+
+  // ── Query helpers ──
+  //
+  // Node queries describe the whole stream: a node is done once it has
+  // every message it subscribes to, and its rank is its progress on the
+  // oldest message it still lacks (the head of the line). A node that
+  // subscribes to nothing shows its relay rank but is never done.
 
-export function clearEngine(): void {
-  eventQueue.clear();
-  rlncTrackers.clear();
-  gossipReceived.clear();
-  gossipForwarded.clear();
-  rlncNodeDeliveryTime.clear();
-  gossipNodeDeliveryTime.clear();
-  rlncRecodePushes.clear();
-  gossipRetries.clear();
-  gossipLastDuplicateSimTime.clear();
-  rlncLastRedundantSimTime.clear();
-  metrics = emptyEngineMetrics();
-  subscriberIds = [];
-  publisherId = null;
-  simNodes = [];
+  hasRemainingEvents(): boolean {
+    return this.eventQueue.length > 0;
+  }
+
+  /** Arrivals processed so far, oldest first */
+  getTrace(): readonly TraceEvent[] {
+    return this.trace;
+  }
+
+  nextEventTime(): number | null {
+    const next = this.eventQueue.peek();
+    return next ? next.fireAt : null;
+  }
+
+  /** Messages this node needs delivered */
+  private subscribedMessages(nodeId: string): MessageState[] {
+    return this.messages.filter((m) => m.subscriberIds.has(nodeId));
+  }
+
+  getRLNCRank(nodeId: string): number {
+    const subscribed = this.subscribedMessages(nodeId);
+    const relevant = subscribed.length > 0 ? subscribed : this.messages.filter((m) => m.publisherId !== nodeId);
+    const head = relevant.find((m) => !m.rlncTrackers.get(nodeId)?.isFullRank);
+    if (!head) return this.messages.length > 0 ? this.simK : 0;
+    return head.rlncTrackers.get(nodeId)?.rank ?? 0;
+  }
+
+  isRLNCReconstructed(nodeId: string): boolean {
+    const subscribed = this.subscribedMessages(nodeId);
+    return subscribed.length > 0 && subscribed.every((m) => m.rlncTrackers.get(nodeId)?.isFullRank);
+  }
+
+  hasGossipMessage(nodeId: string): boolean {
+    const subscribed = this.subscribedMessages(nodeId);
+    return subscribed.length > 0 && subscribed.every((m) => m.gossipReceived.has(nodeId));
+  }
+
+  /** Per-node time (simulated ms) at which each protocol delivered the node's last message */
+  getNodeDeliveryTimes(): { rlnc: Record<string, number>; gossipsub: Record<string, number> } {
+    const streamTimes = (times: (msg: MessageState) => Map<string, number>): Record<string, number> => {
+      const result: Record<string, number> = {};
+      for (const nodeId of this.subscriberIds) {
+        const perMessage = this.subscribedMessages(nodeId).map((m) => times(m).get(nodeId));
+        if (perMessage.every((t) => t !== undefined)) result[nodeId] = Math.max(...(perMessage as number[]));
+      }
+      return result;
+    };
+    return {
+      rlnc: streamTimes((m) => m.rlncDeliveryTime),
+      gossipsub: streamTimes((m) => m.gossipDeliveryTime),
+    };
+  }
+
+  /** Bytes this node has sent and received in each protocol so far */
+  getNodeBytes(nodeId: string): { rlnc: NodeBytes; gossipsub: NodeBytes } {
+    return {
+      rlnc: { ...(this.nodeBytes.rlnc.get(nodeId) ?? { sent: 0, received: 0 }) },
+      gossipsub: { ...(this.nodeBytes.gossipsub.get(nodeId) ?? { sent: 0, received: 0 }) },
+    };
+  }
+
+  getMetrics(): EngineMetrics {
+    return { ...this.metrics };
+  }
+
+  getGossipLastDuplicateTime(nodeId: string): number | null {
+    return this.gossipLastDuplicateSimTime.get(nodeId) ?? null;
+  }
+
+  getRLNCLastRedundantTime(nodeId: string): number | null {
+    return this.rlncLastRedundantSimTime.get(nodeId) ?? null;
+  }
+
+  /** Drop all events and per-node state, returning the engine to idle. */
+  clear(): void {
+    this.eventQueue.clear();
+    this.messages = [];
+    this.edgeLookup.clear();
+    this.nodeLookup.clear();
+    this.lossChannels.clear();
+    this.linkBusyUntil.clear();
+    this.cpuBusyUntil.clear();
+    this.nodeBytes.rlnc.clear();
+    this.nodeBytes.gossipsub.clear();
+    this.gossipMesh.clear();
+    this.gossipHeartbeatPhase.clear();
+    this.gossipLastDuplicateSimTime.clear();
+    this.rlncLastRedundantSimTime.clear();
+    this.trace = [];
+    this.metrics = emptyEngineMetrics();
+    this.subscriberIds = [];
+    this.now = 0;
+  }
 }
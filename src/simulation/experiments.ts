@@ -0,0 +1,248 @@
+/**
+ * Parameter sweep experiments.
+ *
+ * Sweeps one or two parameters across a grid, running N seeded headless
+ * trials per cell (fresh topology and proposer each trial), and aggregates
+ * per-protocol latency percentiles, success rate and overhead ratio.
+ *
+ * Runs are chunked with `setTimeout` yields so a sweep started from the
+ * dashboard keeps the UI responsive and can be cancelled.
+ */
+
+import type { LossModel, NetworkPreset, RlncCodingMode, TopologyOptions, TopologyType } from './types';
+import type { EngineMetrics } from './engine';
+import type { FieldName } from '@/lib/galoisField';
+import { runHeadless } from './batch';
+import { generateTopology } from './topology';
+import { withLossModel } from './lossModel';
+import { createRng } from '@/lib/prng';
+import { mean, percentile } from '@/lib/stats';
+import { NETWORK_PRESETS } from '@/constants/defaults';
+
+// ── Sweep configuration ──
+
+export type SweepParameter = 'packetLoss' | 'nodeCount' | 'k' | 'topology';
+export type SweepValue = number | TopologyType;
+
+export interface SweepAxis {
+  param: SweepParameter;
+  values: SweepValue[];
+}
+
+/** Parameters held fixed for every cell unless an axis overrides them */
+export interface SweepBaseParams {
+  nodeCount: number;
+  topology: TopologyType;
+  topologyOptions: TopologyOptions;
+  networkPreset: NetworkPreset;
+  packetLoss: number; // 0-100
+  lossModel: LossModel;
+  bandwidthMbps: number;
+  blockSizeKB: number;
+  k: number;
+  redundancyFactor: number;
+  field: FieldName;
+  systematic: boolean;
+  codingDensity: number;
+  codingMode: RlncCodingMode;
+  windowSize: number;
+  feedback: boolean;
+  publisherCount: number;
+  messageCount: number;
+  messageIntervalMs: number;
+  gossipMeshDegree: number;
+}
+
+export interface SweepConfig {
+  x: SweepAxis;
+  y: SweepAxis | null;
+  trials: number;
+  base: SweepBaseParams;
+  seed: string;
+}
+
+export const SWEEP_PARAMETER_LABELS: Record<SweepParameter, string> = {
+  packetLoss: 'Packet loss (%)',
+  nodeCount: 'Node count',
+  k: 'RLNC shards (k)',
+  topology: 'Topology',
+};
+
+export const DEFAULT_SWEEP_VALUES: Record<SweepParameter, SweepValue[]> = {
+  packetLoss: [0, 5, 10, 15, 20, 25, 30, 35, 40, 45, 50],
+  nodeCount: [3, 5, 10, 15, 20, 30, 40, 50],
+  k: [2, 4, 6, 8, 10, 12, 14, 16],
+  topology: ['mesh', 'ring', 'star', 'random', 'kademlia', 'erdos-renyi', 'scale-free', 'small-world'],
+};
+
+// ── Results ──
+
+export interface ProtocolCellStats {
+  meanLatencyMs: number | null;
+  p50LatencyMs: number | null;
+  p95LatencyMs: number | null;
+  /** Fraction of trials delivered to every subscriber within the attestation deadline */
+  successRate: number;
+  /** Total transmissions / useful transmissions, pooled over all trials */
+  overheadRatio: number | null;
+}
+
+export interface SweepCell {
+  x: SweepValue;
+  y: SweepValue | null;
+  trials: number;
+  rlnc: ProtocolCellStats;
+  gossipsub: ProtocolCellStats;
+}
+
+export interface SweepResult {
+  config: SweepConfig;
+  /** Indexed as cells[yIndex][xIndex]; a single row when there is no Y axis */
+  cells: SweepCell[][];
+}
+
+export interface SweepProgress {
+  completedRuns: number;
+  totalRuns: number;
+}
+
+// ── Runner ──
+
+function applyAxis(base: SweepBaseParams, param: SweepParameter, value: SweepValue): SweepBaseParams {
+  if (param === 'topology') return { ...base, topology: value as TopologyType };
+  return { ...base, [param]: value as number };
+}
+
+function summarize(
+  runs: EngineMetrics[],
+  protocol: 'rlnc' | 'gossipsub',
+  deadlineMs: number,
+): ProtocolCellStats {
+  const latencies = runs
+    .filter((m) => m[protocol].allDone && m[protocol].lastDeliverySimMs !== null)
+    .map((m) => m[protocol].lastDeliverySimMs!)
+    .sort((a, b) => a - b);
+  const successes = runs.filter(
+    (m) => m[protocol].allDone && (m[protocol].lastDeliverySimMs ?? Infinity) <= deadlineMs,
+  ).length;
+  const total = runs.reduce((sum, m) => sum + m[protocol].totalTransmissions, 0);
+  const useful = runs.reduce((sum, m) => sum + m[protocol].usefulTransmissions, 0);
+
+  return {
+    meanLatencyMs: mean(latencies),
+    p50LatencyMs: latencies.length > 0 ? percentile(latencies, 50) : null,
+    p95LatencyMs: latencies.length > 0 ? percentile(latencies, 95) : null,
+    successRate: runs.length > 0 ? successes / runs.length : 0,
+    overheadRatio: useful > 0 ? total / useful : null,
+  };
+}
+
+function attestationDeadline(params: SweepBaseParams): number {
+  return (NETWORK_PRESETS[params.networkPreset] ?? NETWORK_PRESETS.ethereum).attestationDeadlineMs;
+}
+
+function summarizeCell(runs: EngineMetrics[], deadline: number): { rlnc: ProtocolCellStats; gossipsub: ProtocolCellStats } {
+  return {
+    rlnc: summarize(runs, 'rlnc', deadline),
+    gossipsub: summarize(runs, 'gossipsub', deadline),
+  };
+}
+
+/**
+ * Run one trial of a cell on a fresh topology and proposer.
+ * Trial seeds are derived from the sweep seed and cell coordinates, so any
+ * single cell can be reproduced without re-running the whole sweep.
+ */
+export function runSweepTrial(params: SweepBaseParams, cellSeed: string, trial: number): EngineMetrics {
+  const preset = NETWORK_PRESETS[params.networkPreset] ?? NETWORK_PRESETS.ethereum;
+  const deadline = preset.attestationDeadlineMs;
+  const trialSeed = `${cellSeed}#${trial}`;
+  const rng = createRng(`${trialSeed}:topology`);
+  const topology = generateTopology(
+    params.nodeCount,
+    params.topology,
+    params.networkPreset,
+    params.packetLoss / 100,
+    rng,
+    params.topologyOptions,
+  );
+  const publisher = topology.nodes[Math.floor(rng() * topology.nodes.length)];
+
+  return runHeadless({
+    topology: {
+      ...topology,
+      edges: withLossModel(topology.edges, params.lossModel).map((e) => ({
+        ...e,
+        bandwidthMbps: params.bandwidthMbps,
+      })),
+    },
+    publisherNodeId: publisher.id,
+    k: params.k,
+    redundancyFactor: params.redundancyFactor,
+    gossipMeshDegree: params.gossipMeshDegree,
+    blockSizeKB: params.blockSizeKB,
+    field: params.field,
+    systematic: params.systematic,
+    codingDensity: params.codingDensity,
+    codingMode: params.codingMode,
+    windowSize: params.windowSize,
+    feedback: params.feedback,
+    publisherCount: params.publisherCount,
+    messageCount: params.messageCount,
+    messageIntervalMs: params.messageIntervalMs,
+    processingDelayRLNC: preset.processingDelayRLNC,
+    processingDelayGossip: preset.processingDelayGossip,
+    seed: trialSeed,
+    maxSimMs: Math.max(deadline * 2, 2000),
+  }).metrics;
+}
+
+/** Run every trial for one cell of the grid, synchronously */
+export function runSweepCell(
+  params: SweepBaseParams,
+  trials: number,
+  cellSeed: string,
+): { rlnc: ProtocolCellStats; gossipsub: ProtocolCellStats } {
+  const runs: EngineMetrics[] = [];
+  for (let trial = 0; trial < trials; trial++) runs.push(runSweepTrial(params, cellSeed, trial));
+  return summarizeCell(runs, attestationDeadline(params));
+}
+
+/**
+ * Run a full one- or two-dimensional sweep.
+ * Yields to the event loop and checks `signal` after every trial; abort to
+ * stop early (the returned promise then rejects with an `AbortError`).
+ */
+export async function runSweep(
+  config: SweepConfig,
+  onProgress?: (progress: SweepProgress) => void,
+  signal?: AbortSignal,
+): Promise<SweepResult> {
+  const yValues: (SweepValue | null)[] = config.y ? config.y.values : [null];
+  const totalRuns = yValues.length * config.x.values.length * config.trials;
+  let completedRuns = 0;
+  const cells: SweepCell[][] = [];
+
+  for (const yValue of yValues) {
+    const row: SweepCell[] = [];
+    for (const xValue of config.x.values) {
+      let params = applyAxis(config.base, config.x.param, xValue);
+      if (config.y && yValue !== null) params = applyAxis(params, config.y.param, yValue);
+
+      const cellSeed = `${config.seed}/${config.x.param}=${xValue}/${config.y?.param ?? '-'}=${yValue ?? '-'}`;
+      const runs: EngineMetrics[] = [];
+      for (let trial = 0; trial < config.trials; trial++) {
+        signal?.throwIfAborted();
+        runs.push(runSweepTrial(params, cellSeed, trial));
+        completedRuns++;
+        onProgress?.({ completedRuns, totalRuns });
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      }
+      signal?.throwIfAborted();
+      row.push({ x: xValue, y: yValue, trials: config.trials, ...summarizeCell(runs, attestationDeadline(params)) });
+    }
+    cells.push(row);
+  }
+
+  return { config, cells };
+}
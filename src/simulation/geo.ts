@@ -0,0 +1,68 @@
+import type { GeoLocation } from './types';
+
+/**
+ * Cloud/datacenter regions validators run in, weighted by their rough share
+ * of Ethereum beacon nodes (public crawler data, rounded). Weights are
+ * relative and need not sum to 1.
+ */
+export const DATACENTER_REGIONS: { id: string; label: string; lat: number; lon: number; weight: number }[] = [
+  { id: 'us-east', label: 'Virginia', lat: 39.0, lon: -77.5, weight: 18 },
+  { id: 'us-central', label: 'Ohio', lat: 40.0, lon: -83.0, weight: 6 },
+  { id: 'us-west', label: 'Oregon', lat: 45.6, lon: -121.2, weight: 6 },
+  { id: 'ca-central', label: 'Montréal', lat: 45.5, lon: -73.6, weight: 3 },
+  { id: 'eu-central', label: 'Frankfurt', lat: 50.1, lon: 8.7, weight: 17 },
+  { id: 'eu-north', label: 'Helsinki', lat: 60.2, lon: 24.9, weight: 7 },
+  { id: 'eu-west', label: 'Amsterdam', lat: 52.4, lon: 4.9, weight: 7 },
+  { id: 'eu-london', label: 'London', lat: 51.5, lon: -0.1, weight: 6 },
+  { id: 'eu-paris', label: 'Paris', lat: 48.9, lon: 2.4, weight: 4 },
+  { id: 'ap-singapore', label: 'Singapore', lat: 1.35, lon: 103.8, weight: 7 },
+  { id: 'ap-tokyo', label: 'Tokyo', lat: 35.7, lon: 139.7, weight: 5 },
+  { id: 'ap-seoul', label: 'Seoul', lat: 37.6, lon: 127.0, weight: 3 },
+  { id: 'ap-sydney', label: 'Sydney', lat: -33.9, lon: 151.2, weight: 3 },
+  { id: 'ap-mumbai', label: 'Mumbai', lat: 19.1, lon: 72.9, weight: 2 },
+  { id: 'sa-east', label: 'São Paulo', lat: -23.5, lon: -46.6, weight: 2 },
+  { id: 'af-south', label: 'Johannesburg', lat: -26.2, lon: 28.0, weight: 1 },
+];
+
+const EARTH_RADIUS_KM = 6371;
+// Light in fiber covers ~200 km per ms (2/3 c)
+const FIBER_KM_PER_MS = 200;
+// Cable routes run longer than the great circle between their endpoints
+const ROUTE_STRETCH = 1.5;
+/** Fixed one-way cost of a hop: NIC, switching and the peer's network stack */
+export const GEO_HOP_OVERHEAD_MS = 2;
+// Nodes spread this far (degrees) around their region's center
+const REGION_JITTER_DEG = 0.5;
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+/** Haversine great-circle distance in km */
+export function greatCircleKm(a: GeoLocation, b: GeoLocation): number {
+  const dLat = toRad(b.lat - a.lat);
+  const dLon = toRad(b.lon - a.lon);
+  const h =
+    Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/** One-way link latency between two locations, rounded to 0.1 ms like generated edges */
+export function geoLatencyMs(a: GeoLocation, b: GeoLocation): number {
+  const latency = (greatCircleKm(a, b) * ROUTE_STRETCH) / FIBER_KM_PER_MS + GEO_HOP_OVERHEAD_MS;
+  return Math.round(latency * 10) / 10;
+}
+
+/** Place `count` nodes in regions drawn by validator weight, jittered around each region's center */
+export function sampleGeoLocations(count: number, rng: () => number): GeoLocation[] {
+  const total = DATACENTER_REGIONS.reduce((sum, r) => sum + r.weight, 0);
+  const locations: GeoLocation[] = [];
+  for (let i = 0; i < count; i++) {
+    let pick = rng() * total;
+    const region = DATACENTER_REGIONS.find((r) => (pick -= r.weight) < 0) ?? DATACENTER_REGIONS[0];
+    locations.push({
+      lat: region.lat + (rng() - 0.5) * 2 * REGION_JITTER_DEG,
+      lon: region.lon + (rng() - 0.5) * 2 * REGION_JITTER_DEG,
+      region: region.id,
+    });
+  }
+  return locations;
+}
@@ -0,0 +1,84 @@
+/**
+ * GossipSub v1.1 mesh overlay.
+ *
+ * Each node keeps a mesh of D full-message peers per topic, bounded by
+ * D_low and D_high, and gossips IHAVE to up to D_lazy of its other peers
+ * on every heartbeat (the engine also gossips to mesh peers not known to
+ * have the message, to repair lost pushes). A single slot is short compared to mesh churn, so
+ * the engine builds the mesh once at init as it stands after the joining
+ * GRAFTs and one heartbeat of maintenance, and keeps it fixed.
+ */
+
+import { shuffle } from '@/lib/prng';
+
+export interface GossipMeshParams {
+  /** Target mesh degree */
+  d: number;
+  /** Below this a heartbeat grafts back up to D */
+  dLow: number;
+  /** Above this a heartbeat prunes back down to D */
+  dHigh: number;
+  /** Non-mesh peers that receive IHAVE gossip per heartbeat */
+  dLazy: number;
+}
+
+/** Derive the v1.1 bounds from D, keeping the spec's 6/4/12/6 ratios */
+export function gossipMeshParams(d: number): GossipMeshParams {
+  return {
+    d,
+    dLow: Math.max(1, Math.round((d * 2) / 3)),
+    dHigh: d * 2,
+    dLazy: d,
+  };
+}
+
+/**
+ * Build a symmetric mesh over the neighbor graph.
+ *
+ * 1. Join: every node (in random order) GRAFTs up to D random neighbors.
+ *    GRAFTs are accepted, so popular nodes can end up oversubscribed.
+ * 2. Heartbeat: nodes above D_high PRUNE random peers down to D, then
+ *    nodes below D_low GRAFT more neighbors up to D where available.
+ */
+export function buildGossipMesh(
+  nodes: { id: string; neighbors: string[] }[],
+  params: GossipMeshParams,
+  rng: () => number,
+): Map<string, Set<string>> {
+  const mesh = new Map<string, Set<string>>();
+  for (const node of nodes) mesh.set(node.id, new Set());
+
+  const link = (a: string, b: string) => {
+    mesh.get(a)?.add(b);
+    mesh.get(b)?.add(a);
+  };
+  const unlink = (a: string, b: string) => {
+    mesh.get(a)?.delete(b);
+    mesh.get(b)?.delete(a);
+  };
+  const graftUpTo = (node: { id: string; neighbors: string[] }, target: number) => {
+    const peers = mesh.get(node.id)!;
+    const candidates = shuffle(node.neighbors.filter((n) => !peers.has(n) && mesh.has(n)), rng);
+    for (const peer of candidates) {
+      if (peers.size >= target) break;
+      link(node.id, peer);
+    }
+  };
+
+  const order = shuffle([...nodes], rng);
+
+  for (const node of order) graftUpTo(node, params.d);
+
+  for (const node of order) {
+    const peers = mesh.get(node.id)!;
+    if (peers.size <= params.dHigh) continue;
+    const excess = shuffle([...peers], rng).slice(0, peers.size - params.d);
+    for (const peer of excess) unlink(node.id, peer);
+  }
+
+  for (const node of order) {
+    if (mesh.get(node.id)!.size < params.dLow) graftUpTo(node, params.d);
+  }
+
+  return mesh;
+}
@@ -0,0 +1,104 @@
+/**
+ * Link loss models.
+ *
+ * Gilbert–Elliott is parameterized by its two transition probabilities;
+ * the per-state loss rates are derived from the edge's `packetLossRate`
+ * so switching models changes how losses cluster, not how many there are.
+ * All bad-state capacity is used first (good state lossless), and only
+ * when the requested mean exceeds the bad-state share does the good
+ * state start dropping too.
+ */
+
+import type { Edge, LossModel } from './types';
+
+/** Long-run fraction of packets sent while the channel is in the bad state */
+export function stationaryBadProbability(pGoodToBad: number, pBadToGood: number): number {
+  const total = pGoodToBad + pBadToGood;
+  return total > 0 ? pGoodToBad / total : 0;
+}
+
+/** Per-state loss rates that reproduce `meanLoss` on average */
+export function gilbertElliottStateLoss(
+  meanLoss: number,
+  pGoodToBad: number,
+  pBadToGood: number,
+): { lossGood: number; lossBad: number } {
+  const piBad = stationaryBadProbability(pGoodToBad, pBadToGood);
+  if (piBad <= 0) return { lossGood: meanLoss, lossBad: meanLoss };
+  if (meanLoss <= piBad) return { lossGood: 0, lossBad: meanLoss / piBad };
+  return { lossGood: (meanLoss - piBad) / (1 - piBad), lossBad: 1 };
+}
+
+/** Mean run of consecutive bad-state packets, 1 / P(bad→good) */
+export function meanBadRunLength(pBadToGood: number): number {
+  return pBadToGood > 0 ? 1 / pBadToGood : Infinity;
+}
+
+/** Long-run drop probability of a link under its loss model */
+export function stationaryLossRate(edge: Edge): number {
+  const model = edge.lossModel;
+  if (!model || model.type === 'bernoulli') return edge.packetLossRate;
+  const piBad = stationaryBadProbability(model.pGoodToBad, model.pBadToGood);
+  const { lossGood, lossBad } = gilbertElliottStateLoss(edge.packetLossRate, model.pGoodToBad, model.pBadToGood);
+  return piBad * lossBad + (1 - piBad) * lossGood;
+}
+
+/**
+ * Packets a link is expected to drop in one bad-state run, beyond what its
+ * good state would have dropped; 0 for Bernoulli. A back-to-back burst
+ * that meets a bad run loses them all at once, which the mean rate hides.
+ */
+export function badRunExcessDrops(edge: Edge): number {
+  const model = edge.lossModel;
+  if (!model || model.type === 'bernoulli') return 0;
+  const { lossGood, lossBad } = gilbertElliottStateLoss(edge.packetLossRate, model.pGoodToBad, model.pBadToGood);
+  return (lossBad - lossGood) * meanBadRunLength(model.pBadToGood);
+}
+
+/** Apply a loss model to every edge not overridden per link */
+export function withLossModel(edges: Edge[], model: LossModel): Edge[] {
+  return edges.map((e) => (e.customLoss ? e : { ...e, lossModel: model }));
+}
+
+/**
+ * Stateful loss process for one directed link.
+ * `transmit` draws whether the next packet is dropped, advancing the
+ * channel state for Gilbert–Elliott links.
+ */
+export class LossChannel {
+  private bad: boolean | null = null;
+  /** Length of the current run of consecutive drops */
+  dropRun = 0;
+
+  constructor(private readonly edge: Edge) {}
+
+  transmit(rng: () => number): boolean {
+    const { edge } = this;
+    const model = edge.lossModel;
+    if (!model || model.type === 'bernoulli') {
+      return this.record(rng() < edge.packetLossRate);
+    }
+
+    const { pGoodToBad, pBadToGood } = model;
+    if (this.bad === null) {
+      // First packet: start from the stationary distribution
+      this.bad = rng() < stationaryBadProbability(pGoodToBad, pBadToGood);
+    } else if (this.bad) {
+      this.bad = rng() >= pBadToGood;
+    } else {
+      this.bad = rng() < pGoodToBad;
+    }
+
+    const { lossGood, lossBad } = gilbertElliottStateLoss(
+      edge.packetLossRate,
+      pGoodToBad,
+      pBadToGood,
+    );
+    return this.record(rng() < (this.bad ? lossBad : lossGood));
+  }
+
+  private record(dropped: boolean): boolean {
+    this.dropRun = dropped ? this.dropRun + 1 : 0;
+    return dropped;
+  }
+}
@@ -1,10 +1,15 @@
-import type { FlexNode, Edge, NetworkTopology, TopologyType } from './types';
+import type { FlexNode, Edge, GeoLocation, NetworkTopology, TopologyOptions, TopologyType } from './types';
 import { random, randomNormal, shuffle } from '@/lib/prng';
-import { NETWORK_PRESETS } from '@/constants/defaults';
+import { DEFAULT_TOPOLOGY_OPTIONS, NETWORK_PRESETS } from '@/constants/defaults';
+import { geoLatencyMs, sampleGeoLocations } from './geo';
 
 const CANVAS_WIDTH = 800;
 const CANVAS_HEIGHT = 600;
 const NODE_PADDING = 80;
+// Geo mode lays nodes out on a world map wide enough for regional clusters
+const MAP_WIDTH = 3200;
+const MAP_HEIGHT = 1600;
+const MAP_NODE_GAP = 90;
 
 function nodeId(i: number): string {
   return `node-${i}`;
@@ -15,12 +20,12 @@ function nodeLabel(i: number): string {
 }
 
 /** Generate random positions spread across the canvas */
-function randomPositions(count: number): { x: number; y: number }[] {
+export function randomPositions(count: number, rng: () => number): { x: number; y: number }[] {
   const positions: { x: number; y: number }[] = [];
   for (let i = 0; i < count; i++) {
     // Distribute in a roughly circular layout with jitter
-    const angle = (2 * Math.PI * i) / count + (random() - 0.5) * 0.5;
-    const radius = 200 + random() * 80;
+    const angle = (2 * Math.PI * i) / count + (rng() - 0.5) * 0.5;
+    const radius = 200 + rng() * 80;
     positions.push({
       x: CANVAS_WIDTH / 2 + Math.cos(angle) * radius,
       y: CANVAS_HEIGHT / 2 + Math.sin(angle) * radius,
@@ -29,14 +34,47 @@ function randomPositions(count: number): { x: number; y: number }[] {
   return positions;
 }
 
-function createNodes(count: number): FlexNode[] {
-  const positions = randomPositions(count);
+/**
+ * Equirectangular projection of each location onto the map, then pushed
+ * apart until nodes in the same or neighboring regions no longer overlap.
+ */
+export function mapPositions(locations: GeoLocation[]): { x: number; y: number }[] {
+  const positions = locations.map((loc, i) => ({
+    // Tiny index-based offset so co-located nodes have a direction to separate in
+    x: ((loc.lon + 180) / 360) * MAP_WIDTH + Math.cos(i) * 0.1,
+    y: ((90 - loc.lat) / 180) * MAP_HEIGHT + Math.sin(i) * 0.1,
+  }));
+  for (let iter = 0; iter < 100; iter++) {
+    let moved = false;
+    for (let i = 0; i < positions.length; i++) {
+      for (let j = i + 1; j < positions.length; j++) {
+        const dx = positions[j].x - positions[i].x;
+        const dy = positions[j].y - positions[i].y;
+        const dist = Math.hypot(dx, dy);
+        if (dist >= MAP_NODE_GAP) continue;
+        const push = (MAP_NODE_GAP - dist) / 2 / dist;
+        positions[i].x -= dx * push;
+        positions[i].y -= dy * push;
+        positions[j].x += dx * push;
+        positions[j].y += dy * push;
+        moved = true;
+      }
+    }
+    if (!moved) break;
+  }
+  return positions;
+}
+
+function createNodes(count: number, rng: () => number, geo: boolean): FlexNode[] {
+  const locations = geo ? sampleGeoLocations(count, rng) : undefined;
+  const positions = locations ? mapPositions(locations) : randomPositions(count, rng);
   return positions.map((pos, i) => ({
     id: nodeId(i),
     label: nodeLabel(i),
     position: pos,
     role: 'relay' as const,
     neighbors: [],
+    ...(locations && { geo: locations[i] }),
   }));
 }
 
@@ -45,6 +83,7 @@ function makeEdge(
   target: string,
   preset: string,
   globalLoss: number,
+  rng: () => number,
 ): Edge {
   const config = NETWORK_PRESETS[preset] ?? NETWORK_PRESETS.ethereum;
   const latency = randomNormal(
@@ -52,51 +91,261 @@ function makeEdge(
     config.latencyStdDev,
     config.latencyMin,
     config.latencyMax,
+    rng,
   );
   return {
     id: `${source}->${target}`,
     source,
     target,
     latencyMs: Math.round(latency * 10) / 10,
+    bandwidthMbps: config.bandwidthMbps,
     packetLossRate: globalLoss,
   };
 }
 
-/** Ensure the graph is connected via a spanning path, then add random edges */
-function generateMesh(
+/**
+ * Edge list plus an idempotent `link(a, b)` that adds both directions of a
+ * link and records the nodes as neighbors.
+ */
+function linkBuilder(
   nodes: FlexNode[],
   preset: string,
   globalLoss: number,
-): Edge[] {
+  rng: () => number,
+) {
   const edges: Edge[] = [];
   const edgeSet = new Set<string>();
+  const byId = new Map(nodes.map((n) => [n.id, n]));
 
-  const addEdge = (a: string, b: string) => {
+  const linked = (a: string, b: string) => edgeSet.has([a, b].sort().join('--'));
+  const link = (a: string, b: string) => {
     const key = [a, b].sort().join('--');
-    if (edgeSet.has(key)) return;
+    if (a === b || edgeSet.has(key)) return;
     edgeSet.add(key);
-    edges.push(makeEdge(a, b, preset, globalLoss));
-    edges.push(makeEdge(b, a, preset, globalLoss));
-    const nodeA = nodes.find((n) => n.id === a)!;
-    const nodeB = nodes.find((n) => n.id === b)!;
+    edges.push(makeEdge(a, b, preset, globalLoss, rng));
+    edges.push(makeEdge(b, a, preset, globalLoss, rng));
+    const nodeA = byId.get(a)!;
+    const nodeB = byId.get(b)!;
     if (!nodeA.neighbors.includes(b)) nodeA.neighbors.push(b);
     if (!nodeB.neighbors.includes(a)) nodeB.neighbors.push(a);
   };
 
+  return { edges, link, linked };
+}
+
+/**
+ * Join any disconnected components with one random link each, so every
+ * generator yields a graph a message can cross.
+ */
+function connectComponents(nodes: FlexNode[], link: (a: string, b: string) => void, rng: () => number) {
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const seen = new Set<string>();
+  const components: string[][] = [];
+  for (const start of nodes) {
+    if (seen.has(start.id)) continue;
+    const component = [start.id];
+    seen.add(start.id);
+    for (let i = 0; i < component.length; i++) {
+      for (const next of byId.get(component[i])!.neighbors) {
+        if (!seen.has(next)) {
+          seen.add(next);
+          component.push(next);
+        }
+      }
+    }
+    components.push(component);
+  }
+
+  const pick = (ids: string[]) => ids[Math.floor(rng() * ids.length)];
+  for (let i = 1; i < components.length; i++) {
+    link(pick(components[i - 1]), pick(components[i]));
+  }
+}
+
+/** Ensure the graph is connected via a spanning path, then add random edges */
+function generateMesh(
+  nodes: FlexNode[],
+  preset: string,
+  globalLoss: number,
+  rng: () => number,
+): Edge[] {
+  const { edges, link } = linkBuilder(nodes, preset, globalLoss, rng);
+
   // Spanning path for connectivity
-  const shuffled = shuffle([...nodes.map((n) => n.id)]);
+  const shuffled = shuffle([...nodes.map((n) => n.id)], rng);
   for (let i = 0; i < shuffled.length - 1; i++) {
-    addEdge(shuffled[i], shuffled[i + 1]);
+    link(shuffled[i], shuffled[i + 1]);
   }
 
   // Add random extra edges for mesh density (target avg degree ~3)
   const targetExtraEdges = Math.max(0, Math.floor(nodes.length * 1.5) - (nodes.length - 1));
   for (let attempt = 0; attempt < targetExtraEdges * 3 && edges.length / 2 < nodes.length * 1.5; attempt++) {
-    const a = nodes[Math.floor(random() * nodes.length)].id;
-    const b = nodes[Math.floor(random() * nodes.length)].id;
-    if (a !== b) addEdge(a, b);
+    const a = nodes[Math.floor(rng() * nodes.length)].id;
+    const b = nodes[Math.floor(rng() * nodes.length)].id;
+    if (a !== b) link(a, b);
+  }
+
+  return edges;
+}
+
+/**
+ * Random regular graph: every node gets `degree` random peers (pairing
+ * model, with self-loops and repeats redrawn a bounded number of times).
+ */
+function generateRandomRegular(
+  nodes: FlexNode[],
+  degree: number,
+  preset: string,
+  globalLoss: number,
+  rng: () => number,
+): Edge[] {
+  const { edges, link, linked } = linkBuilder(nodes, preset, globalLoss, rng);
+  const d = Math.min(degree, nodes.length - 1);
+
+  // One stub per unit of degree; pair stubs off at random
+  let stubs = shuffle(nodes.flatMap((n) => Array<string>(d).fill(n.id)), rng);
+  for (let attempt = 0; attempt < 20 && stubs.length > 1; attempt++) {
+    const leftover: string[] = [];
+    for (let i = 0; i + 1 < stubs.length; i += 2) {
+      const [a, b] = [stubs[i], stubs[i + 1]];
+      if (a === b || linked(a, b)) leftover.push(a, b);
+      else link(a, b);
+    }
+    if (stubs.length % 2 === 1) leftover.push(stubs[stubs.length - 1]);
+    stubs = shuffle(leftover, rng);
+  }
+
+  connectComponents(nodes, link, rng);
+  return edges;
+}
+
+/**
+ * Kademlia/discv5-style peering. Each node gets a random 32-bit ID and
+ * files every other node into the routing-table bucket of their XOR
+ * distance (bit length of a ^ b). It then dials peers round-robin across
+ * buckets, closest first, until it reaches `targetPeers`; peers already at
+ * the inbound limit (1.5× target) refuse. Like discv5 this gives every
+ * node a few close peers plus a spread of far ones.
+ */
+function generateKademlia(
+  nodes: FlexNode[],
+  targetPeers: number,
+  preset: string,
+  globalLoss: number,
+  rng: () => number,
+): Edge[] {
+  const { edges, link, linked } = linkBuilder(nodes, preset, globalLoss, rng);
+  const ids = new Map(nodes.map((n) => [n.id, Math.floor(rng() * 2 ** 32) >>> 0]));
+  const maxPeers = Math.ceil(targetPeers * 1.5);
+  const degree = (n: FlexNode) => n.neighbors.length;
+
+  for (const node of shuffle([...nodes], rng)) {
+    const buckets: FlexNode[][] = Array.from({ length: 33 }, () => []);
+    for (const other of nodes) {
+      if (other.id === node.id) continue;
+      const distance = (ids.get(node.id)! ^ ids.get(other.id)!) >>> 0;
+      buckets[32 - Math.clz32(distance)].push(other);
+    }
+    const queues = buckets.filter((b) => b.length > 0).map((b) => shuffle(b, rng));
+
+    while (degree(node) < targetPeers && queues.some((q) => q.length > 0)) {
+      for (const queue of queues) {
+        if (degree(node) >= targetPeers) break;
+        const peer = queue.shift();
+        if (peer && !linked(node.id, peer.id) && degree(peer) < maxPeers) link(node.id, peer.id);
+      }
+    }
   }
 
+  connectComponents(nodes, link, rng);
+  return edges;
+}
+
+/** Erdős–Rényi G(n, p): each pair of nodes is linked independently with probability p */
+function generateErdosRenyi(
+  nodes: FlexNode[],
+  p: number,
+  preset: string,
+  globalLoss: number,
+  rng: () => number,
+): Edge[] {
+  const { edges, link } = linkBuilder(nodes, preset, globalLoss, rng);
+  for (let i = 0; i < nodes.length; i++) {
+    for (let j = i + 1; j < nodes.length; j++) {
+      if (rng() < p) link(nodes[i].id, nodes[j].id);
+    }
+  }
+  connectComponents(nodes, link, rng);
+  return edges;
+}
+
+/**
+ * Barabási–Albert scale-free graph: starting from a small clique, each new
+ * node attaches to `m` existing nodes chosen proportionally to their
+ * degree, so early nodes grow into hubs.
+ */
+function generateScaleFree(
+  nodes: FlexNode[],
+  m: number,
+  preset: string,
+  globalLoss: number,
+  rng: () => number,
+): Edge[] {
+  const { edges, link, linked } = linkBuilder(nodes, preset, globalLoss, rng);
+  const seedSize = Math.min(nodes.length, m + 1);
+  for (let i = 0; i < seedSize; i++) {
+    for (let j = i + 1; j < seedSize; j++) link(nodes[i].id, nodes[j].id);
+  }
+
+  // Each endpoint appears once per link, so a uniform draw is degree-weighted
+  const endpoints = nodes.slice(0, seedSize).flatMap((n) => Array<string>(n.neighbors.length).fill(n.id));
+  for (let i = seedSize; i < nodes.length; i++) {
+    const node = nodes[i];
+    const targets = new Set<string>();
+    for (let attempt = 0; targets.size < Math.min(m, i) && attempt < m * 20; attempt++) {
+      const candidate = endpoints.length > 0 ? endpoints[Math.floor(rng() * endpoints.length)] : nodes[0].id;
+      if (!linked(node.id, candidate)) targets.add(candidate);
+    }
+    for (const target of targets) {
+      link(node.id, target);
+      endpoints.push(node.id, target);
+    }
+  }
+
+  connectComponents(nodes, link, rng);
+  return edges;
+}
+
+/**
+ * Watts–Strogatz small world: a ring lattice where each node links to its
+ * `degree / 2` nearest neighbors on each side, then each lattice edge is
+ * rewired to a random node with probability `beta`.
+ */
+function generateSmallWorld(
+  nodes: FlexNode[],
+  degree: number,
+  beta: number,
+  preset: string,
+  globalLoss: number,
+  rng: () => number,
+): Edge[] {
+  const { edges, link, linked } = linkBuilder(nodes, preset, globalLoss, rng);
+  const n = nodes.length;
+  const half = Math.max(1, Math.min(Math.floor(degree / 2), Math.floor((n - 1) / 2)));
+
+  for (let j = 1; j <= half; j++) {
+    for (let i = 0; i < n; i++) {
+      const a = nodes[i].id;
+      let b = nodes[(i + j) % n].id;
+      if (rng() < beta) {
+        const candidates = nodes.filter((c) => c.id !== a && !linked(a, c.id));
+        if (candidates.length > 0) b = candidates[Math.floor(rng() * candidates.length)].id;
+      }
+      link(a, b);
+    }
+  }
+
+  connectComponents(nodes, link, rng);
   return edges;
 }
 
@@ -104,13 +353,14 @@ function generateRing(
   nodes: FlexNode[],
   preset: string,
   globalLoss: number,
+  rng: () => number,
 ): Edge[] {
   const edges: Edge[] = [];
   for (let i = 0; i < nodes.length; i++) {
     const a = nodes[i];
     const b = nodes[(i + 1) % nodes.length];
-    const fwd = makeEdge(a.id, b.id, preset, globalLoss);
-    const bwd = makeEdge(b.id, a.id, preset, globalLoss);
+    const fwd = makeEdge(a.id, b.id, preset, globalLoss, rng);
+    const bwd = makeEdge(b.id, a.id, preset, globalLoss, rng);
     edges.push(fwd, bwd);
     a.neighbors.push(b.id);
     b.neighbors.push(a.id);
@@ -122,13 +372,14 @@ function generateStar(
   nodes: FlexNode[],
   preset: string,
   globalLoss: number,
+  rng: () => number,
 ): Edge[] {
   const edges: Edge[] = [];
   const hub = nodes[0];
   for (let i = 1; i < nodes.length; i++) {
     const spoke = nodes[i];
-    edges.push(makeEdge(hub.id, spoke.id, preset, globalLoss));
-    edges.push(makeEdge(spoke.id, hub.id, preset, globalLoss));
+    edges.push(makeEdge(hub.id, spoke.id, preset, globalLoss, rng));
+    edges.push(makeEdge(spoke.id, hub.id, preset, globalLoss, rng));
     hub.neighbors.push(spoke.id);
     spoke.neighbors.push(hub.id);
   }
@@ -140,23 +391,48 @@ export function generateTopology(
   type: TopologyType,
   preset: string,
   globalLoss: number,
+  rng: () => number = random,
+  options: TopologyOptions = DEFAULT_TOPOLOGY_OPTIONS,
 ): NetworkTopology {
-  const nodes = createNodes(nodeCount);
+  const nodes = createNodes(nodeCount, rng, options.geo);
+  const { targetPeers } = options;
 
   let edges: Edge[];
   switch (type) {
     case 'ring':
-      edges = generateRing(nodes, preset, globalLoss);
+      edges = generateRing(nodes, preset, globalLoss, rng);
       break;
     case 'star':
-      edges = generateStar(nodes, preset, globalLoss);
+      edges = generateStar(nodes, preset, globalLoss, rng);
       break;
-    case 'mesh':
     case 'random':
+      edges = generateRandomRegular(nodes, targetPeers, preset, globalLoss, rng);
+      break;
+    case 'kademlia':
+      edges = generateKademlia(nodes, targetPeers, preset, globalLoss, rng);
+      break;
+    case 'erdos-renyi':
+      edges = generateErdosRenyi(nodes, options.erdosRenyiP, preset, globalLoss, rng);
+      break;
+    case 'scale-free':
+      edges = generateScaleFree(nodes, Math.max(1, Math.round(targetPeers / 2)), preset, globalLoss, rng);
+      break;
+    case 'small-world':
+      edges = generateSmallWorld(nodes, targetPeers, options.rewireProbability, preset, globalLoss, rng);
+      break;
+    case 'mesh':
     default:
-      edges = generateMesh(nodes, preset, globalLoss);
+      edges = generateMesh(nodes, preset, globalLoss, rng);
       break;
   }
 
+  if (options.geo) {
+    // Distance decides latency, replacing the preset draw each edge was created with
+    const byId = new Map(nodes.map((n) => [n.id, n]));
+    for (const edge of edges) {
+      edge.latencyMs = geoLatencyMs(byId.get(edge.source)!.geo!, byId.get(edge.target)!.geo!);
+    }
+  }
+
   return { nodes, edges };
 }
@@ -0,0 +1,387 @@
+/**
+ * Topology import.
+ *
+ * Loads a crawled or measured network from JSON, GraphML or CSV into a
+ * `NetworkTopology`. Every format goes through the same validation, which
+ * reports all problems at once rather than stopping at the first.
+ *
+ * - JSON: `{ nodes, edges }` (or networkx-style `links`); nodes may be bare
+ *   IDs or objects with `label`, `x`/`y` or `position`, and `lat`/`lon`
+ *   or `geo`.
+ * - GraphML: `<node>`/`<edge>` elements with `<data>` keyed by attribute name.
+ * - CSV: an edge list with a `source,target,...` header, or an RTT matrix
+ *   whose header row and first column are node IDs.
+ *
+ * Field names are matched loosely (`latency_ms`, `delay`, `rtt`, `loss`,
+ * `bandwidth`, `latitude`, ...). RTTs are halved into one-way latency. A
+ * link listed in one direction only is mirrored; missing values fall back
+ * to the caller's defaults. Nodes with lat/lon keep them for the globe and,
+ * when every node has them, are laid out on the geo mode world map.
+ */
+
+import type { Edge, FlexNode, NetworkTopology } from './types';
+import { createRng } from '@/lib/prng';
+import { mapPositions, randomPositions } from './topology';
+
+export interface ImportDefaults {
+  latencyMs: number;
+  bandwidthMbps: number;
+  packetLossRate: number;
+}
+
+export type TopologyImportResult =
+  | { ok: true; topology: NetworkTopology }
+  | { ok: false; errors: string[] };
+
+interface RawNode {
+  id: string;
+  label?: string;
+  x?: number;
+  y?: number;
+  lat?: number;
+  lon?: number;
+  region?: string;
+}
+
+interface RawEdge {
+  source: string;
+  target: string;
+  latencyMs?: number;
+  packetLossRate?: number;
+  bandwidthMbps?: number;
+}
+
+interface RawGraph {
+  /** Null when the format only lists edges; nodes are then their endpoints */
+  nodes: RawNode[] | null;
+  edges: RawEdge[];
+}
+
+type Field =
+  | 'id' | 'label' | 'x' | 'y' | 'lat' | 'lon' | 'region'
+  | 'source' | 'target' | 'latency' | 'rtt' | 'loss' | 'bandwidth';
+
+const FIELD_ALIASES: Record<string, Field> = {
+  id: 'id', nodeid: 'id', peerid: 'id',
+  label: 'label', name: 'label',
+  x: 'x', y: 'y',
+  lat: 'lat', latitude: 'lat',
+  lon: 'lon', lng: 'lon', long: 'lon', longitude: 'lon',
+  region: 'region', location: 'region', city: 'region',
+  source: 'source', src: 'source', from: 'source',
+  target: 'target', dst: 'target', to: 'target',
+  latency: 'latency', latencyms: 'latency', delay: 'latency', delayms: 'latency',
+  rtt: 'rtt', rttms: 'rtt',
+  loss: 'loss', lossrate: 'loss', packetloss: 'loss', packetlossrate: 'loss',
+  bandwidth: 'bandwidth', bandwidthmbps: 'bandwidth', bw: 'bandwidth',
+};
+
+function fieldOf(name: string): Field | undefined {
+  return FIELD_ALIASES[name.toLowerCase().replace(/[^a-z]/g, '')];
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (value === null || value === undefined || value === '') return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+/** Fold loosely named fields into a node or edge record */
+function readFields(entries: [string, unknown][]): Partial<Record<Field, unknown>> {
+  const fields: Partial<Record<Field, unknown>> = {};
+  for (const [name, value] of entries) {
+    const field = fieldOf(name);
+    if (field && fields[field] === undefined) fields[field] = value;
+  }
+  return fields;
+}
+
+function rawNode(fields: Partial<Record<Field, unknown>>): RawNode {
+  return {
+    id: String(fields.id ?? ''),
+    label: fields.label !== undefined ? String(fields.label) : undefined,
+    x: toNumber(fields.x),
+    y: toNumber(fields.y),
+    lat: toNumber(fields.lat),
+    lon: toNumber(fields.lon),
+    region: fields.region !== undefined ? String(fields.region) : undefined,
+  };
+}
+
+function rawEdge(fields: Partial<Record<Field, unknown>>): RawEdge {
+  const rtt = toNumber(fields.rtt);
+  return {
+    source: String(fields.source ?? ''),
+    target: String(fields.target ?? ''),
+    latencyMs: toNumber(fields.latency) ?? (rtt !== undefined ? rtt / 2 : undefined),
+    packetLossRate: toNumber(fields.loss),
+    bandwidthMbps: toNumber(fields.bandwidth),
+  };
+}
+
+// ── Format parsers ──
+
+function parseJson(text: string): RawGraph {
+  const data = JSON.parse(text) as Record<string, unknown>;
+  const nodeList = data.nodes;
+  const edgeList = data.edges ?? data.links;
+  if (!Array.isArray(edgeList)) throw new Error('JSON has no "edges" (or "links") array');
+
+  const nodes = Array.isArray(nodeList)
+    ? nodeList.map((n) => {
+        if (typeof n !== 'object' || n === null) return { id: String(n) };
+        const obj = n as Record<string, unknown>;
+        // Flatten this app's own `position` and `geo` objects
+        const nested = ['position', 'geo'].flatMap((key) =>
+          typeof obj[key] === 'object' && obj[key] !== null ? Object.entries(obj[key] as object) : [],
+        );
+        return rawNode(readFields([...Object.entries(obj), ...nested]));
+      })
+    : null;
+  const edges = edgeList.map((e) => rawEdge(readFields(Object.entries((e ?? {}) as object))));
+  return { nodes, edges };
+}
+
+function parseGraphml(text: string): RawGraph {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('GraphML is not well-formed XML');
+
+  // <key id="d0" attr.name="latency"/> maps data keys to attribute names
+  const keyNames = new Map<string, string>();
+  for (const key of Array.from(doc.getElementsByTagName('key'))) {
+    keyNames.set(key.getAttribute('id') ?? '', key.getAttribute('attr.name') ?? key.getAttribute('id') ?? '');
+  }
+  const dataOf = (el: Element): [string, unknown][] =>
+    Array.from(el.getElementsByTagName('data')).map((d) => {
+      const key = d.getAttribute('key') ?? '';
+      return [keyNames.get(key) ?? key, d.textContent?.trim()];
+    });
+
+  const nodes = Array.from(doc.getElementsByTagName('node')).map((el) =>
+    rawNode(readFields([...dataOf(el), ['id', el.getAttribute('id')]])),
+  );
+  const edges = Array.from(doc.getElementsByTagName('edge')).map((el) =>
+    rawEdge(readFields([...dataOf(el), ['source', el.getAttribute('source')], ['target', el.getAttribute('target')]])),
+  );
+  return { nodes, edges };
+}
+
+function parseCsv(text: string): RawGraph {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== '' && !line.startsWith('#'));
+  if (lines.length === 0) throw new Error('CSV is empty');
+  const delimiter = lines[0].includes('\t') ? '\t' : lines[0].includes(';') && !lines[0].includes(',') ? ';' : ',';
+  const rows = lines.map((line) => line.split(delimiter).map((cell) => cell.trim().replace(/^"(.*)"$/, '$1')));
+  const header = rows[0];
+
+  const fields = header.map(fieldOf);
+  if (fields.includes('source') && fields.includes('target')) {
+    const edges = rows.slice(1).map((row) => rawEdge(readFields(header.map((name, i) => [name, row[i]]))));
+    return { nodes: null, edges };
+  }
+
+  // RTT matrix: row i, column j is the measured RTT from node i to node j
+  const ids = header.slice(1);
+  const edges: RawEdge[] = [];
+  for (const row of rows.slice(1)) {
+    for (let j = 0; j < ids.length; j++) {
+      const rtt = toNumber(row[j + 1]);
+      if (rtt === undefined || rtt <= 0 || row[0] === ids[j]) continue;
+      edges.push({ source: row[0], target: ids[j], latencyMs: rtt / 2 });
+    }
+  }
+  return { nodes: ids.map((id) => ({ id })), edges };
+}
+
+// ── Validation and assembly ──
+
+function validate(nodes: RawNode[], edges: RawEdge[]): string[] {
+  const errors: string[] = [];
+  if (nodes.length < 2) errors.push(`Found ${nodes.length} node(s); a network needs at least 2`);
+
+  const ids = new Set<string>();
+  for (const node of nodes) {
+    if (node.id === '') errors.push('A node has no ID');
+    else if (ids.has(node.id)) errors.push(`Duplicate node ID "${node.id}"`);
+    ids.add(node.id);
+  }
+
+  for (const edge of edges) {
+    const name = `Edge ${edge.source || '?'} → ${edge.target || '?'}`;
+    for (const end of [edge.source, edge.target]) {
+      if (!ids.has(end)) errors.push(`${name} references unknown node "${end}"`);
+    }
+    if (edge.source === edge.target) errors.push(`${name} links a node to itself`);
+    if (edge.latencyMs !== undefined && edge.latencyMs < 0) errors.push(`${name} has negative latency`);
+    if (edge.packetLossRate !== undefined && (edge.packetLossRate < 0 || edge.packetLossRate > 1)) {
+      errors.push(`${name} has loss ${edge.packetLossRate}; expected a rate between 0 and 1`);
+    }
+    if (edge.bandwidthMbps !== undefined && edge.bandwidthMbps <= 0) errors.push(`${name} has non-positive bandwidth`);
+  }
+  if (errors.length > 0) return errors;
+
+  // Connected components, treating every link as undirected
+  const adjacency = new Map(nodes.map((n) => [n.id, [] as string[]]));
+  for (const edge of edges) {
+    adjacency.get(edge.source)!.push(edge.target);
+    adjacency.get(edge.target)!.push(edge.source);
+  }
+  const seen = new Set<string>();
+  const components: string[][] = [];
+  for (const start of nodes) {
+    if (seen.has(start.id)) continue;
+    const component = [start.id];
+    seen.add(start.id);
+    for (let i = 0; i < component.length; i++) {
+      for (const next of adjacency.get(component[i])!) {
+        if (!seen.has(next)) {
+          seen.add(next);
+          component.push(next);
+        }
+      }
+    }
+    components.push(component);
+  }
+  if (components.length > 1) {
+    const sizes = components.map((c) => c.length).sort((a, b) => b - a);
+    errors.push(
+      `Graph is disconnected: ${components.length} components of ${sizes.join(', ')} nodes ` +
+        `("${components[1][0]}" cannot reach "${components[0][0]}")`,
+    );
+  }
+  return errors;
+}
+
+function assemble(name: string, rawNodes: RawNode[], rawEdges: RawEdge[], defaults: ImportDefaults): NetworkTopology {
+  const hasGeo = (n: RawNode) => n.lat !== undefined && n.lon !== undefined;
+  const geoOf = (n: RawNode) => (hasGeo(n) ? { lat: n.lat!, lon: n.lon!, region: n.region ?? 'imported' } : undefined);
+
+  const positions = rawNodes.every(hasGeo)
+    ? mapPositions(rawNodes.map((n) => geoOf(n)!))
+    : rawNodes.every((n) => n.x !== undefined && n.y !== undefined)
+      ? rawNodes.map((n) => ({ x: n.x!, y: n.y! }))
+      : randomPositions(rawNodes.length, createRng(`import:${name}`));
+
+  const nodes: FlexNode[] = rawNodes.map((n, i) => {
+    const geo = geoOf(n);
+    return {
+      id: n.id,
+      label: n.label ?? n.id,
+      position: positions[i],
+      role: 'relay' as const,
+      neighbors: [],
+      ...(geo && { geo }),
+    };
+  });
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+
+  const directed = new Map<string, RawEdge>();
+  for (const edge of rawEdges) {
+    const key = `${edge.source}->${edge.target}`;
+    if (!directed.has(key)) directed.set(key, edge);
+  }
+  // Mirror links measured in one direction only
+  for (const edge of Array.from(directed.values())) {
+    const reverse = `${edge.target}->${edge.source}`;
+    if (!directed.has(reverse)) directed.set(reverse, { ...edge, source: edge.target, target: edge.source });
+  }
+
+  const edges: Edge[] = Array.from(directed.values()).map((e) => {
+    const a = byId.get(e.source)!;
+    const b = byId.get(e.target)!;
+    if (!a.neighbors.includes(b.id)) a.neighbors.push(b.id);
+    return {
+      id: `${e.source}->${e.target}`,
+      source: e.source,
+      target: e.target,
+      latencyMs: Math.round((e.latencyMs ?? defaults.latencyMs) * 10) / 10,
+      bandwidthMbps: e.bandwidthMbps ?? defaults.bandwidthMbps,
+      packetLossRate: e.packetLossRate ?? defaults.packetLossRate,
+      // Measured loss is a per-link override the global slider leaves alone
+      ...(e.packetLossRate !== undefined && { customLoss: true }),
+    };
+  });
+
+  return { nodes, edges };
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+function nodeShapeErrors(node: unknown, index: number): string[] {
+  if (!isObject(node)) return [`Node ${index} is not an object`];
+  const name = typeof node.id === 'string' ? `Node "${node.id}"` : `Node ${index}`;
+  const errors: string[] = [];
+  if (typeof node.id !== 'string') errors.push(`${name} has no string ID`);
+  if (typeof node.label !== 'string') errors.push(`${name} has no label`);
+  if (!Array.isArray(node.neighbors) || !node.neighbors.every((id) => typeof id === 'string')) {
+    errors.push(`${name} has no list of neighbor IDs`);
+  }
+  if (!isObject(node.position) || !isNumber(node.position.x) || !isNumber(node.position.y)) {
+    errors.push(`${name} has no x/y position`);
+  }
+  return errors;
+}
+
+function edgeShapeErrors(edge: unknown, index: number): string[] {
+  if (!isObject(edge)) return [`Edge ${index} is not an object`];
+  const name = typeof edge.id === 'string' ? `Edge "${edge.id}"` : `Edge ${index}`;
+  const errors: string[] = [];
+  if (typeof edge.source !== 'string' || typeof edge.target !== 'string') errors.push(`${name} has no source and target IDs`);
+  for (const key of ['latencyMs', 'bandwidthMbps', 'packetLossRate']) {
+    if (!isNumber(edge[key])) errors.push(`${name} has no numeric ${key}`);
+  }
+  const model = edge.lossModel;
+  if (model !== undefined) {
+    const rate = (p: unknown) => isNumber(p) && p >= 0 && p <= 1;
+    const valid =
+      isObject(model) &&
+      (model.type === 'bernoulli' ||
+        (model.type === 'gilbert-elliott' && rate(model.pGoodToBad) && rate(model.pBadToGood)));
+    if (!valid) errors.push(`${name} has an unknown loss model`);
+  }
+  return errors;
+}
+
+/** Problems with an already-built topology (e.g. from a scenario bundle); empty when it is usable */
+export function validateTopology(topology: NetworkTopology): string[] {
+  // Checked field by field first: a bundle can hold anything
+  const shapeErrors = [
+    ...(topology.nodes as unknown[]).flatMap(nodeShapeErrors),
+    ...(topology.edges as unknown[]).flatMap(edgeShapeErrors),
+  ];
+  if (shapeErrors.length > 0) return shapeErrors;
+
+  const ids = new Set(topology.nodes.map((n) => n.id));
+  const neighborErrors = topology.nodes.flatMap((n) =>
+    n.neighbors.filter((id) => !ids.has(id)).map((id) => `Node "${n.id}" lists unknown neighbor "${id}"`),
+  );
+  return [...validate(
+    topology.nodes.map((n) => ({ id: n.id })),
+    topology.edges.map((e) => ({
+      source: e.source,
+      target: e.target,
+      latencyMs: e.latencyMs,
+      packetLossRate: e.packetLossRate,
+      bandwidthMbps: e.bandwidthMbps,
+    })),
+  ), ...neighborErrors];
+}
+
+/** Parse and validate a dropped topology file, choosing the format by extension */
+export function parseTopologyFile(fileName: string, text: string, defaults: ImportDefaults): TopologyImportResult {
+  const ext = fileName.toLowerCase().split('.').pop() ?? '';
+  let raw: RawGraph;
+  try {
+    if (ext === 'json') raw = parseJson(text);
+    else if (ext === 'graphml' || ext === 'xml') raw = parseGraphml(text);
+    else if (ext === 'csv' || ext === 'tsv' || ext === 'txt') raw = parseCsv(text);
+    else return { ok: false, errors: [`Unsupported file type ".${ext}"; use .json, .graphml or .csv`] };
+  } catch (err) {
+    return { ok: false, errors: [`Could not parse ${fileName}: ${err instanceof Error ? err.message : String(err)}`] };
+  }
+
+  const nodes = raw.nodes ?? Array.from(new Set(raw.edges.flatMap((e) => [e.source, e.target]))).map((id) => ({ id }));
+  const errors = validate(nodes, raw.edges);
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, topology: assemble(fileName, nodes, raw.edges, defaults) };
+}
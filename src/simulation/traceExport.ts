@@ -0,0 +1,106 @@
+/**
+ * Trace export.
+ *
+ * Serializes an engine trace for analysis outside the dashboard: CSV and
+ * NDJSON for notebooks, and Chrome trace-event JSON for trace viewers
+ * (chrome://tracing, Perfetto). In the Chrome format each protocol is a
+ * process with one thread per node; every arrival is an instant on the
+ * receiver's track, and RLNC rank progress is a counter per node and message.
+ */
+
+import type { FlexNode } from './types';
+import type { TraceEvent } from './engine';
+
+const CSV_COLUMNS: [string, (e: TraceEvent) => string | number | boolean | null][] = [
+  ['time_ms', (e) => e.time],
+  ['sent_at_ms', (e) => e.sentAt],
+  ['protocol', (e) => e.protocol],
+  ['message_id', (e) => e.messageId],
+  ['from', (e) => e.from],
+  ['to', (e) => e.to],
+  ['kind', (e) => e.kind],
+  ['bytes', (e) => e.bytes],
+  ['dropped', (e) => e.dropped],
+  ['outcome', (e) => e.outcome],
+  ['rank_after', (e) => e.rankAfter],
+];
+
+function csvCell(value: string | number | boolean | null): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function traceToCsv(trace: readonly TraceEvent[]): string {
+  const header = CSV_COLUMNS.map(([name]) => name).join(',');
+  const rows = trace.map((e) => CSV_COLUMNS.map(([, get]) => csvCell(get(e))).join(','));
+  return [header, ...rows].join('\n') + '\n';
+}
+
+export function traceToNdjson(trace: readonly TraceEvent[]): string {
+  return trace.map((e) => JSON.stringify(e)).join('\n') + '\n';
+}
+
+interface ChromeTraceEvent {
+  name: string;
+  ph: 'i' | 'C' | 'M';
+  pid: number;
+  tid?: number;
+  /** Microseconds */
+  ts?: number;
+  s?: 't';
+  cat?: string;
+  args?: Record<string, unknown>;
+}
+
+const PROTOCOL_PIDS = { rlnc: 1, gossipsub: 2 } as const;
+const PROTOCOL_NAMES = { rlnc: 'mump2p (RLNC)', gossipsub: 'GossipSub' } as const;
+
+/** Chrome trace-event JSON (object form), timestamps in simulated microseconds */
+export function traceToChromeTrace(trace: readonly TraceEvent[], nodes: FlexNode[]): string {
+  const tids = new Map(nodes.map((n, i) => [n.id, i + 1]));
+  const labels = new Map(nodes.map((n) => [n.id, n.label]));
+  const labelOf = (id: string) => labels.get(id) ?? id;
+  const us = (ms: number) => Math.round(ms * 1000);
+
+  const events: ChromeTraceEvent[] = [];
+  for (const protocol of ['rlnc', 'gossipsub'] as const) {
+    const pid = PROTOCOL_PIDS[protocol];
+    events.push({ name: 'process_name', ph: 'M', pid, args: { name: PROTOCOL_NAMES[protocol] } });
+    for (const node of nodes) {
+      events.push({ name: 'thread_name', ph: 'M', pid, tid: tids.get(node.id), args: { name: node.label } });
+    }
+  }
+
+  for (const e of trace) {
+    const pid = PROTOCOL_PIDS[e.protocol];
+    events.push({
+      name: `${e.dropped ? 'dropped ' : ''}${e.kind} from ${labelOf(e.from)}`,
+      cat: `${e.protocol},${e.dropped ? 'dropped' : e.outcome ?? 'control'}`,
+      ph: 'i',
+      s: 't',
+      pid,
+      tid: tids.get(e.to),
+      ts: us(e.time),
+      args: {
+        message: e.messageId,
+        from: e.from,
+        sentAtMs: e.sentAt,
+        bytes: e.bytes,
+        outcome: e.outcome,
+        rankAfter: e.rankAfter,
+      },
+    });
+    if (e.rankAfter !== null && !e.dropped) {
+      events.push({
+        name: `rank ${labelOf(e.to)} #${e.messageId}`,
+        ph: 'C',
+        pid,
+        ts: us(e.time),
+        args: { rank: e.rankAfter },
+      });
+    }
+  }
+
+  return JSON.stringify({ traceEvents: events, displayTimeUnit: 'ms' });
+}
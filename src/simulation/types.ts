@@ -6,14 +6,65 @@ export interface FlexNode {
   position: { x: number; y: number };
   role: 'publisher' | 'relay' | 'subscriber';
   neighbors: string[];
+  /** Relative CPU speed; 1 is the machine the preset processing delays assume */
+  cpuSpeed?: number;
+  /** Topics the node subscribes to; absent means all of them */
+  subscriptions?: Topic[];
+  /** Real-world location, set when the topology was placed in geo mode */
+  geo?: GeoLocation;
 }
 
+export interface GeoLocation {
+  lat: number;
+  lon: number;
+  /** Datacenter region the node was placed in */
+  region: string;
+}
+
+/**
+ * Pub/sub topic a message is published on. A node that doesn't subscribe
+ * to a topic still relays its messages but never needs to receive them.
+ */
+export type Topic = 'beacon_block' | 'blob_sidecar';
+
+/**
+ * Per-link loss process. Bernoulli drops each packet independently with
+ * `packetLossRate`; Gilbert–Elliott alternates between a good and a bad
+ * state so losses arrive in bursts with the same long-run average.
+ */
+export type LossModelType = 'bernoulli' | 'gilbert-elliott';
+
+export interface GilbertElliottParams {
+  /** Per-packet probability of moving from the good to the bad state */
+  pGoodToBad: number;
+  /** Per-packet probability of moving from the bad back to the good state */
+  pBadToGood: number;
+}
+
+export type LossModel =
+  | { type: 'bernoulli' }
+  | ({ type: 'gilbert-elliott' } & GilbertElliottParams);
+
+/**
+ * How the RLNC publisher forms shards. Block coding combines all k symbols
+ * from the start; sliding-window coding releases the symbols as a stream
+ * and each shard combines only the most recent window of them.
+ */
+export type RlncCodingMode = 'block' | 'sliding-window';
+
 export interface Edge {
   id: string;
   source: string;
   target: string;
   latencyMs: number;
+  /** Link capacity; sets how long each packet takes to serialize */
+  bandwidthMbps: number;
+  /** Long-run probability (0-1) that a transmission on this link is dropped */
   packetLossRate: number;
+  /** Defaults to Bernoulli when absent */
+  lossModel?: LossModel;
+  /** Set when the loss was edited per link; the global slider leaves it alone */
+  customLoss?: boolean;
 }
 
 export interface NetworkTopology {
@@ -89,7 +140,35 @@ export interface AnimatedParticle {
 
 export type ComparisonMode = 'click' | 'continuous';
 export type NetworkPreset = 'ethereum' | 'solana' | 'custom';
-export type TopologyType = 'mesh' | 'ring' | 'star' | 'random';
+export type TopologyType =
+  | 'mesh'
+  | 'ring'
+  | 'star'
+  | 'random'
+  | 'kademlia'
+  | 'erdos-renyi'
+  | 'scale-free'
+  | 'small-world';
+
+/** Knobs for the generators that take them */
+export interface TopologyOptions {
+  /**
+   * Peers each node aims for: the Kademlia peer target, the degree of the
+   * random regular graph and Watts–Strogatz lattice, and twice the
+   * Barabási–Albert attachment count
+   */
+  targetPeers: number;
+  /** Erdős–Rényi probability that any given pair of nodes is linked */
+  erdosRenyiP: number;
+  /** Watts–Strogatz probability that a lattice edge is rewired */
+  rewireProbability: number;
+  /**
+   * Place nodes at datacenter regions weighted by validator share and derive
+   * link latency from great-circle distance instead of the preset's latency
+   * distribution
+   */
+  geo: boolean;
+}
 
 export interface NetworkPresetConfig {
   label: string;
@@ -97,6 +176,8 @@ export interface NetworkPresetConfig {
   latencyStdDev: number;
   latencyMin: number;
   latencyMax: number;
+  /** Default per-link bandwidth for generated topologies */
+  bandwidthMbps: number;
   slotTimeMs: number;
   processingDelayRLNC: number;
   processingDelayGossip: number;
@@ -0,0 +1,191 @@
+/**
+ * Scenario bundles.
+ *
+ * One JSON file holding everything needed to put the dashboard back where
+ * it was: the network, every control, the seed, the run in progress and
+ * the recorded slot results and engine metrics. Runs are seeded, so the
+ * restored run replays to the same state it was exported in. The bundled
+ * network goes through the same checks as an imported topology, and the
+ * controls through the same ranges as the share link.
+ */
+
+import type { DashboardState } from './index';
+import { validateTopology } from '@/simulation/topologyImport';
+import { FIELDS } from '@/lib/galoisField';
+import { NETWORK_PRESETS, TOPOLOGY_LABELS } from '@/constants/defaults';
+
+// v2 added `traceHorizonMs`
+export const BUNDLE_VERSION = 2;
+
+/** Store fields a bundle carries; everything else is derived or transient */
+const BUNDLED_KEYS = [
+  // Network
+  'nodes',
+  'edges',
+  'topology',
+  'topologyOptions',
+  'importedTopology',
+  // Controls
+  'nodeCount',
+  'packetLoss',
+  'lossModelType',
+  'gilbertElliott',
+  'bandwidthMbps',
+  'blockSizeKB',
+  'networkPreset',
+  'comparisonMode',
+  'k',
+  'redundancyFactor',
+  'rlncField',
+  'rlncSystematic',
+  'rlncCodingDensity',
+  'rlncCodingMode',
+  'rlncFeedback',
+  'rlncWindowSize',
+  'gossipMeshDegree',
+  'messageCount',
+  'messageIntervalMs',
+  'publisherCount',
+  'seed',
+  'speed',
+  // Run
+  'simTime',
+  'traceHorizonMs',
+  'publisherNodeId',
+  'publisherNodeIds',
+  'subscriberNodeIds',
+  'runSlot',
+  'simulationDone',
+  'engineMetrics',
+  'slotResults',
+] as const satisfies readonly (keyof DashboardState)[];
+
+export type BundledState = Pick<DashboardState, (typeof BUNDLED_KEYS)[number]>;
+
+// Allowed values, matching what the share link accepts (see `useUrlState`)
+const CHOICES: Partial<Record<keyof BundledState, readonly unknown[]>> = {
+  topology: Object.keys(TOPOLOGY_LABELS),
+  networkPreset: Object.keys(NETWORK_PRESETS),
+  comparisonMode: ['click', 'continuous'],
+  lossModelType: ['bernoulli', 'gilbert-elliott'],
+  rlncField: Object.keys(FIELDS),
+  rlncCodingMode: ['block', 'sliding-window'],
+  rlncSystematic: [true, false],
+  rlncFeedback: [true, false],
+  simulationDone: [true, false],
+};
+
+const RANGES: Partial<Record<keyof BundledState, { min: number; max: number; integer?: boolean }>> = {
+  packetLoss: { min: 0, max: 50 },
+  bandwidthMbps: { min: 5, max: 1000 },
+  blockSizeKB: { min: 16, max: 2048 },
+  k: { min: 2, max: 16, integer: true },
+  redundancyFactor: { min: 1, max: 6 },
+  rlncCodingDensity: { min: 0.1, max: 1 },
+  rlncWindowSize: { min: 1, max: 16, integer: true },
+  gossipMeshDegree: { min: 2, max: 12, integer: true },
+  publisherCount: { min: 1, max: 8, integer: true },
+  messageCount: { min: 1, max: 16, integer: true },
+  messageIntervalMs: { min: 0, max: 500 },
+  speed: { min: 0.1, max: 10 },
+  simTime: { min: 0, max: Infinity },
+  traceHorizonMs: { min: 0, max: Infinity },
+  runSlot: { min: 0, max: Infinity, integer: true },
+};
+
+const inRange = (value: unknown, min: number, max: number) => typeof value === 'number' && value >= min && value <= max;
+
+/** Control and run values the engine would choke on; assumes every key and a valid network */
+function valueErrors(state: BundledState): string[] {
+  const errors: string[] = [];
+  const show = (value: unknown) => JSON.stringify(value) ?? String(value);
+
+  for (const [key, allowed] of Object.entries(CHOICES)) {
+    const value = state[key as keyof BundledState];
+    if (!allowed.includes(value)) errors.push(`"${key}" is ${show(value)}; expected one of ${allowed.join(', ')}`);
+  }
+  for (const [key, { min, max, integer }] of Object.entries(RANGES)) {
+    const value = state[key as keyof BundledState];
+    if (!inRange(value, min, max) || (integer && !Number.isInteger(value))) {
+      const bounds = max === Infinity ? `at least ${min}` : `from ${min} to ${max}`;
+      errors.push(`"${key}" is ${show(value)}; expected a ${integer ? 'whole ' : ''}number ${bounds}`);
+    }
+  }
+
+  if (typeof state.seed !== 'string' || !state.seed.trim()) errors.push('"seed" is empty');
+  if (state.nodeCount !== state.nodes.length) {
+    errors.push(`"nodeCount" is ${show(state.nodeCount)} but the network has ${state.nodes.length} nodes`);
+  }
+  if (state.importedTopology !== null && typeof state.importedTopology !== 'string') {
+    errors.push('"importedTopology" is neither a file name nor null');
+  }
+  const ge = state.gilbertElliott;
+  if (!ge || !inRange(ge.pGoodToBad, 0.01, 0.5) || !inRange(ge.pBadToGood, 0.05, 1)) {
+    errors.push('"gilbertElliott" needs pGoodToBad from 0.01 to 0.5 and pBadToGood from 0.05 to 1');
+  }
+  const options = state.topologyOptions;
+  if (
+    !options ||
+    !(Number.isInteger(options.targetPeers) && inRange(options.targetPeers, 2, 12)) ||
+    !(inRange(options.erdosRenyiP, 0, 1) && options.erdosRenyiP > 0) ||
+    !inRange(options.rewireProbability, 0, 1) ||
+    typeof options.geo !== 'boolean'
+  ) {
+    errors.push('"topologyOptions" needs targetPeers 2–12, erdosRenyiP and rewireProbability within 0–1, and geo');
+  }
+
+  const ids = new Set(state.nodes.map((n) => n.id));
+  const idLists = { publisherNodeIds: state.publisherNodeIds, subscriberNodeIds: state.subscriberNodeIds };
+  for (const [key, list] of Object.entries(idLists)) {
+    if (!Array.isArray(list) || !list.every((id) => ids.has(id))) errors.push(`"${key}" lists nodes not in the network`);
+  }
+  if (state.publisherNodeId !== null && !ids.has(state.publisherNodeId)) {
+    errors.push(`"publisherNodeId" ${show(state.publisherNodeId)} is not in the network`);
+  }
+  if (inRange(state.simTime, 0, Infinity) && state.traceHorizonMs < state.simTime) {
+    errors.push('"traceHorizonMs" is before "simTime"');
+  }
+  if (state.engineMetrics !== null && typeof state.engineMetrics !== 'object') errors.push('"engineMetrics" is not an object');
+  if (!Array.isArray(state.slotResults)) errors.push('"slotResults" is not a list');
+  return errors;
+}
+
+export interface ScenarioBundle {
+  version: number;
+  exportedAt: string;
+  state: BundledState;
+}
+
+export type BundleParseResult =
+  | { ok: true; bundle: ScenarioBundle }
+  | { ok: false; errors: string[] };
+
+export function createBundle(state: DashboardState): ScenarioBundle {
+  const bundled = Object.fromEntries(BUNDLED_KEYS.map((key) => [key, state[key]])) as BundledState;
+  return { version: BUNDLE_VERSION, exportedAt: new Date().toISOString(), state: bundled };
+}
+
+export function parseBundle(text: string): BundleParseResult {
+  let data: Partial<ScenarioBundle>;
+  try {
+    data = JSON.parse(text) as Partial<ScenarioBundle>;
+  } catch (err) {
+    return { ok: false, errors: [`Not valid JSON: ${err instanceof Error ? err.message : String(err)}`] };
+  }
+
+  if (typeof data !== 'object' || data === null) return { ok: false, errors: ['Not a scenario bundle'] };
+  if (data.version !== 1 && data.version !== BUNDLE_VERSION) {
+    return { ok: false, errors: [`Unsupported bundle version ${String(data.version)}; expected ${BUNDLE_VERSION}`] };
+  }
+  if (typeof data.state !== 'object' || data.state === null) return { ok: false, errors: ['Bundle has no state'] };
+  const state = data.state as Partial<BundledState>;
+  // v1 predates the trace horizon; the run had reached its saved time
+  if (data.version === 1) state.traceHorizonMs = state.simTime;
+  const errors = BUNDLED_KEYS.filter((key) => !(key in state)).map((key) => `Bundle is missing "${key}"`);
+  if (!Array.isArray(state.nodes) || !Array.isArray(state.edges)) errors.push('Bundle has no node and edge lists');
+  else errors.push(...validateTopology({ nodes: state.nodes, edges: state.edges }));
+  if (errors.length > 0) return { ok: false, errors };
+  errors.push(...valueErrors(state as BundledState));
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, bundle: { ...data, version: BUNDLE_VERSION, state } as ScenarioBundle };
+}
@@ -6,21 +6,74 @@ import type {
   ComparisonMode,
   NetworkPreset,
   TopologyType,
+  TopologyOptions,
   AnimatedParticle,
   SlotResult,
+  LossModel,
+  LossModelType,
+  RlncCodingMode,
+  GilbertElliottParams,
+  Topic,
 } from '@/simulation/types';
-import type { EngineMetrics } from '@/simulation/engine';
+import {
+  SimulationEngine,
+  concurrentPublishers,
+  messageStream,
+  subscribesTo,
+  type EngineMetrics,
+  type InitParams,
+  type TraceEvent,
+} from '@/simulation/engine';
+import type { SweepResult } from '@/simulation/experiments';
+import type { BundledState } from './bundle';
 import { generateTopology } from '@/simulation/topology';
-import { setSeed } from '@/lib/prng';
+import { withLossModel } from '@/simulation/lossModel';
+import { createRng } from '@/lib/prng';
+import type { FieldName } from '@/lib/galoisField';
 import {
   DEFAULT_NODE_COUNT,
   DEFAULT_PACKET_LOSS,
   DEFAULT_K,
   DEFAULT_REDUNDANCY_FACTOR,
   DEFAULT_GOSSIP_MESH_DEGREE,
+  DEFAULT_TOPOLOGY_OPTIONS,
   DEFAULT_SPEED,
+  DEFAULT_SEED,
+  DEFAULT_GE_P_GOOD_TO_BAD,
+  DEFAULT_GE_P_BAD_TO_GOOD,
+  DEFAULT_BLOCK_SIZE_KB,
+  DEFAULT_RLNC_FIELD,
+  DEFAULT_RLNC_WINDOW_SIZE,
+  DEFAULT_MESSAGE_COUNT,
+  DEFAULT_MESSAGE_INTERVAL_MS,
+  NETWORK_PRESETS,
 } from '@/constants/defaults';
 
+/**
+ * Engine instance driven by the dashboard's animation loop and queried by
+ * the canvas and metrics components. Headless runs create their own.
+ */
+export const dashboardEngine = new SimulationEngine();
+
+// The run's trace up to its horizon, set aside when a seek rewinds
+// `dashboardEngine` so exports still get the arrivals the run recorded
+let horizonTrace: readonly TraceEvent[] | null = null;
+
+/**
+ * Call before re-initializing `dashboardEngine` to seek; keeps the trace if
+ * it reaches the horizon. A cleared engine (a bundle just restored) has
+ * nothing to keep.
+ */
+export function keepHorizonTrace(state: Pick<DashboardState, 'simTime' | 'traceHorizonMs'>): void {
+  const trace = dashboardEngine.getTrace();
+  if (state.simTime >= state.traceHorizonMs && trace.length > 0) horizonTrace = trace;
+}
+
+/** The current run's recorded trace up to its horizon, if a seek set it aside */
+export function recordedHorizonTrace(): readonly TraceEvent[] | null {
+  return horizonTrace;
+}
+
 // ── State shape ──
 
 export interface DashboardState {
@@ -28,22 +81,58 @@ export interface DashboardState {
   nodes: FlexNode[];
   edges: Edge[];
   topology: TopologyType;
+  /** Peer target, Erdős–Rényi p and rewiring probability for the generators that use them */
+  topologyOptions: TopologyOptions;
+  /** File the network was imported from; null while it comes from the generator */
+  importedTopology: string | null;
 
   // Controls
   nodeCount: number;
   packetLoss: number;
+  /** Loss model applied to every link without a per-link override */
+  lossModelType: LossModelType;
+  gilbertElliott: GilbertElliottParams;
+  /** Applied to every link; defaults to the network preset's bandwidth */
+  bandwidthMbps: number;
+  blockSizeKB: number;
   networkPreset: NetworkPreset;
   comparisonMode: ComparisonMode;
   k: number;
   redundancyFactor: number;
+  /** Field RLNC codes over; smaller fields waste more shards on linear dependence */
+  rlncField: FieldName;
+  /** Publisher leads with the k uncoded source symbols, then coded repair shards */
+  rlncSystematic: boolean;
+  /** Probability each coding coefficient is nonzero; 1 = dense */
+  rlncCodingDensity: number;
+  rlncCodingMode: RlncCodingMode;
+  /** Nodes signal full rank and senders stop pushing to them, instead of blind push */
+  rlncFeedback: boolean;
+  /** Symbols per shard in sliding-window mode (capped at k) */
+  rlncWindowSize: number;
   gossipMeshDegree: number;
+  /** Messages the publisher streams per slot */
+  messageCount: number;
+  /** Gap between consecutive messages' publish times (ms) */
+  messageIntervalMs: number;
+  /** Nodes publishing concurrently each slot: the clicked proposer plus seeded picks */
+  publisherCount: number;
+  /** Drives topology generation, loss draws, coding vectors and proposer selection */
+  seed: string;
 
   // Simulation
   running: boolean;
   speed: number;
   simTime: number;          // Current simulated time in ms (starts at 0)
+  /** Furthest simTime this run has reached; seeking back leaves it in place */
+  traceHorizonMs: number;
+  /** The proposer, which started the run */
   publisherNodeId: string | null;
+  /** Every node publishing this run, the proposer first */
+  publisherNodeIds: string[];
   subscriberNodeIds: string[];
+  /** Slot the current run seeds from; stays put once its result is recorded */
+  runSlot: number;
   simulationDone: boolean;
 
   // Animation
@@ -55,16 +144,42 @@ export interface DashboardState {
   // Continuous mode slot tracking
   slotResults: SlotResult[];
 
+  // Last completed parameter sweep (Experiments panel)
+  sweepResult: SweepResult | null;
+
   // Actions
   setNodeCount: (count: number) => void;
   setPacketLoss: (loss: number) => void;
+  setEdgeLoss: (source: string, target: string, loss: number | null) => void;
+  setNodeCpuSpeed: (nodeId: string, speed: number) => void;
+  setNodeSubscriptions: (nodeId: string, topics: Topic[]) => void;
+  setLossModelType: (type: LossModelType) => void;
+  setGilbertElliott: (params: Partial<GilbertElliottParams>) => void;
+  setEdgeLossModel: (source: string, target: string, type: LossModelType) => void;
+  setBandwidth: (mbps: number) => void;
+  setBlockSize: (kb: number) => void;
   setNetworkPreset: (preset: NetworkPreset) => void;
   setComparisonMode: (mode: ComparisonMode) => void;
   setTopology: (type: TopologyType) => void;
+  setTopologyOptions: (options: Partial<TopologyOptions>) => void;
+  importTopology: (topology: NetworkTopology, fileName: string) => void;
+  restoreBundle: (state: BundledState) => void;
   setK: (k: number) => void;
+  setRlncField: (field: FieldName) => void;
+  setRlncSystematic: (systematic: boolean) => void;
+  setRlncCodingDensity: (density: number) => void;
+  setRlncCodingMode: (mode: RlncCodingMode) => void;
+  setRlncFeedback: (feedback: boolean) => void;
+  setRlncWindowSize: (size: number) => void;
+  setGossipMeshDegree: (d: number) => void;
+  setMessageCount: (count: number) => void;
+  setMessageInterval: (ms: number) => void;
+  setPublisherCount: (count: number) => void;
   setSpeed: (speed: number) => void;
+  setSeed: (seed: string) => void;
   regenerateTopology: () => void;
   startPropagation: (publisherId: string) => void;
+  startNextSlot: () => void;
   resetSimulation: () => void;
   setRunning: (running: boolean) => void;
   setSimTime: (t: number) => void;
@@ -73,47 +188,146 @@ export interface DashboardState {
   setSimulationDone: (done: boolean) => void;
   recordSlotResult: (result: SlotResult) => void;
   clearSlotResults: () => void;
+  setSweepResult: (result: SweepResult | null) => void;
 }
 
-function buildTopology(
-  nodeCount: number,
-  type: TopologyType,
-  preset: string,
-  packetLoss: number,
-): NetworkTopology {
-  setSeed(`mump2p-${nodeCount}-${type}-${Date.now()}`);
-  return generateTopology(nodeCount, type, preset, packetLoss / 100);
+type TopologyInputs = Pick<
+  DashboardState,
+  | 'nodeCount'
+  | 'topology'
+  | 'topologyOptions'
+  | 'networkPreset'
+  | 'packetLoss'
+  | 'seed'
+  | 'lossModelType'
+  | 'gilbertElliott'
+  | 'bandwidthMbps'
+>;
+
+function buildTopology(inputs: TopologyInputs): NetworkTopology {
+  const { nodeCount, topology, topologyOptions, networkPreset, packetLoss, seed, bandwidthMbps } = inputs;
+  const rng = createRng(`${seed}:topology:${nodeCount}-${topology}-${networkPreset}`);
+  const topo = generateTopology(nodeCount, topology, networkPreset, packetLoss / 100, rng, topologyOptions);
+  const edges = withLossModel(topo.edges, globalLossModel(inputs)).map((e) => ({
+    ...e,
+    bandwidthMbps,
+  }));
+  return { ...topo, edges };
 }
 
-export const useDashboardStore = create<DashboardState>((set, get) => {
-  const initial = buildTopology(
-    DEFAULT_NODE_COUNT,
-    'mesh',
-    'ethereum',
-    DEFAULT_PACKET_LOSS,
+/** Build a loss model of `type` from the dashboard's Gilbert–Elliott parameters */
+export function lossModelOf(
+  type: LossModelType,
+  params: GilbertElliottParams,
+): LossModel {
+  return type === 'gilbert-elliott' ? { type, ...params } : { type };
+}
+
+function globalLossModel(state: Pick<DashboardState, 'lossModelType' | 'gilbertElliott'>): LossModel {
+  return lossModelOf(state.lossModelType, state.gilbertElliott);
+}
+
+function matchesLink(e: Edge, source: string, target: string): boolean {
+  return (
+    (e.source === source && e.target === target) ||
+    (e.source === target && e.target === source)
   );
+}
+
+/** Short random seed for "Regenerate Layout" and the seed shuffle button */
+export function randomSeed(): string {
+  return Math.random().toString(36).slice(2, 8);
+}
+
+/**
+ * Seed for one propagation's engine run. Combines the user seed with the
+ * publisher and slot number so every slot of a shared link replays exactly.
+ */
+export function runSeed(state: Pick<DashboardState, 'seed' | 'publisherNodeId' | 'runSlot'>): string {
+  return `${state.seed}:run:${state.publisherNodeId}:${state.runSlot}`;
+}
+
+/** Engine parameters for the dashboard's current run */
+export function engineInitParams(state: DashboardState): InitParams {
+  const preset = NETWORK_PRESETS[state.networkPreset];
+  return {
+    publisherNodeId: state.publisherNodeId ?? '',
+    nodes: state.nodes,
+    edges: state.edges,
+    k: state.k,
+    redundancyFactor: state.redundancyFactor,
+    gossipMeshDegree: state.gossipMeshDegree,
+    blockSizeKB: state.blockSizeKB,
+    field: state.rlncField,
+    systematic: state.rlncSystematic,
+    codingDensity: state.rlncCodingDensity,
+    codingMode: state.rlncCodingMode,
+    windowSize: state.rlncWindowSize,
+    feedback: state.rlncFeedback,
+    messages: messageStream(state.publisherNodeIds, state.messageCount, state.messageIntervalMs),
+    processingDelayRLNC: preset.processingDelayRLNC,
+    processingDelayGossip: preset.processingDelayGossip,
+    seed: runSeed(state),
+  };
+}
+
+export const useDashboardStore = create<DashboardState>((set, get) => {
+  const initialInputs: TopologyInputs = {
+    nodeCount: DEFAULT_NODE_COUNT,
+    topology: 'mesh',
+    topologyOptions: DEFAULT_TOPOLOGY_OPTIONS,
+    networkPreset: 'ethereum',
+    packetLoss: DEFAULT_PACKET_LOSS,
+    seed: DEFAULT_SEED,
+    lossModelType: 'bernoulli',
+    gilbertElliott: {
+      pGoodToBad: DEFAULT_GE_P_GOOD_TO_BAD,
+      pBadToGood: DEFAULT_GE_P_BAD_TO_GOOD,
+    },
+    bandwidthMbps: NETWORK_PRESETS.ethereum.bandwidthMbps,
+  };
+  const initial = buildTopology(initialInputs);
 
   return {
     // Network
     nodes: initial.nodes,
     edges: initial.edges,
     topology: 'mesh',
+    topologyOptions: initialInputs.topologyOptions,
+    importedTopology: null,
 
     // Controls
     nodeCount: DEFAULT_NODE_COUNT,
     packetLoss: DEFAULT_PACKET_LOSS,
+    lossModelType: initialInputs.lossModelType,
+    gilbertElliott: initialInputs.gilbertElliott,
+    bandwidthMbps: initialInputs.bandwidthMbps,
+    blockSizeKB: DEFAULT_BLOCK_SIZE_KB,
     networkPreset: 'ethereum',
     comparisonMode: 'click',
     k: DEFAULT_K,
     redundancyFactor: DEFAULT_REDUNDANCY_FACTOR,
+    rlncField: DEFAULT_RLNC_FIELD,
+    rlncSystematic: false,
+    rlncCodingDensity: 1,
+    rlncCodingMode: 'block',
+    rlncFeedback: false,
+    rlncWindowSize: DEFAULT_RLNC_WINDOW_SIZE,
     gossipMeshDegree: DEFAULT_GOSSIP_MESH_DEGREE,
+    messageCount: DEFAULT_MESSAGE_COUNT,
+    messageIntervalMs: DEFAULT_MESSAGE_INTERVAL_MS,
+    publisherCount: 1,
+    seed: DEFAULT_SEED,
 
     // Simulation
     running: false,
     speed: DEFAULT_SPEED,
     simTime: 0,
+    traceHorizonMs: 0,
     publisherNodeId: null,
+    publisherNodeIds: [],
     subscriberNodeIds: [],
+    runSlot: 0,
     simulationDone: false,
 
     // Animation
@@ -125,19 +339,24 @@ export const useDashboardStore = create<DashboardState>((set, get) => {
     // Continuous mode
     slotResults: [],
 
+    // Experiments
+    sweepResult: null,
+
     // ── Actions ──
 
     setNodeCount: (count) => {
-      const { topology, networkPreset, packetLoss } = get();
-      const topo = buildTopology(count, topology, networkPreset, packetLoss);
+      const topo = buildTopology({ ...get(), nodeCount: count });
       set({
         nodeCount: count,
+        importedTopology: null,
         nodes: topo.nodes,
         edges: topo.edges,
         particles: [],
         running: false,
         simTime: 0,
+        traceHorizonMs: 0,
         publisherNodeId: null,
+        publisherNodeIds: [],
         subscriberNodeIds: [],
         engineMetrics: null,
         simulationDone: false,
@@ -146,25 +365,102 @@ export const useDashboardStore = create<DashboardState>((set, get) => {
 
     setPacketLoss: (loss) => {
       set((state) => {
-        const newEdges = state.edges.map((e) => ({
-          ...e,
-          packetLossRate: loss / 100,
-        }));
+        const newEdges = state.edges.map((e) =>
+          e.customLoss ? e : { ...e, packetLossRate: loss / 100 },
+        );
         return { packetLoss: loss, edges: newEdges };
       });
     },
 
+    // Applies to both directions of the link; null reverts to the global loss and model
+    setEdgeLoss: (source, target, loss) => {
+      set((state) => {
+        const newEdges = state.edges.map((e) => {
+          if (!matchesLink(e, source, target)) return e;
+          return loss === null
+            ? {
+                ...e,
+                packetLossRate: state.packetLoss / 100,
+                lossModel: globalLossModel(state),
+                customLoss: false,
+              }
+            : { ...e, packetLossRate: loss / 100, customLoss: true };
+        });
+        return { edges: newEdges };
+      });
+    },
+
+    setNodeCpuSpeed: (nodeId, speed) => {
+      set((state) => ({
+        nodes: state.nodes.map((n) => (n.id === nodeId ? { ...n, cpuSpeed: speed } : n)),
+      }));
+    },
+
+    setNodeSubscriptions: (nodeId, topics) => {
+      set((state) => ({
+        nodes: state.nodes.map((n) => (n.id === nodeId ? { ...n, subscriptions: topics } : n)),
+      }));
+    },
+
+    setLossModelType: (type) => {
+      set((state) => ({
+        lossModelType: type,
+        edges: withLossModel(state.edges, lossModelOf(type, state.gilbertElliott)),
+      }));
+    },
+
+    setGilbertElliott: (params) => {
+      set((state) => {
+        const gilbertElliott = { ...state.gilbertElliott, ...params };
+        // Links overridden to bursty loss share the global burst shape too
+        const edges = state.edges.map((e) =>
+          e.customLoss && e.lossModel?.type === 'gilbert-elliott'
+            ? { ...e, lossModel: lossModelOf('gilbert-elliott', gilbertElliott) }
+            : e,
+        );
+        return {
+          gilbertElliott,
+          edges: withLossModel(edges, lossModelOf(state.lossModelType, gilbertElliott)),
+        };
+      });
+    },
+
+    // Per-link model override; bursty links use the global Gilbert–Elliott parameters
+    setEdgeLossModel: (source, target, type) => {
+      set((state) => ({
+        edges: state.edges.map((e) =>
+          matchesLink(e, source, target)
+            ? { ...e, lossModel: lossModelOf(type, state.gilbertElliott), customLoss: true }
+            : e,
+        ),
+      }));
+    },
+
+    setBandwidth: (mbps) => {
+      set((state) => ({
+        bandwidthMbps: mbps,
+        edges: state.edges.map((e) => ({ ...e, bandwidthMbps: mbps })),
+      }));
+    },
+
+    setBlockSize: (kb) => set({ blockSizeKB: kb }),
+
     setNetworkPreset: (preset) => {
-      const { nodeCount, topology, packetLoss } = get();
-      const topo = buildTopology(nodeCount, topology, preset, packetLoss);
+      // Switching network resets link bandwidth to that network's default
+      const bandwidthMbps = NETWORK_PRESETS[preset].bandwidthMbps;
+      const topo = buildTopology({ ...get(), networkPreset: preset, bandwidthMbps });
       set({
         networkPreset: preset,
+        bandwidthMbps,
+        importedTopology: null,
         nodes: topo.nodes,
         edges: topo.edges,
         particles: [],
         running: false,
         simTime: 0,
+        traceHorizonMs: 0,
         publisherNodeId: null,
+        publisherNodeIds: [],
         subscriberNodeIds: [],
         engineMetrics: null,
         simulationDone: false,
@@ -174,35 +470,129 @@ export const useDashboardStore = create<DashboardState>((set, get) => {
     setComparisonMode: (mode) => set({ comparisonMode: mode }),
 
     setTopology: (type) => {
-      const { nodeCount, networkPreset, packetLoss } = get();
-      const topo = buildTopology(nodeCount, type, networkPreset, packetLoss);
+      const topo = buildTopology({ ...get(), topology: type });
       set({
         topology: type,
+        importedTopology: null,
         nodes: topo.nodes,
         edges: topo.edges,
         particles: [],
         running: false,
         simTime: 0,
+        traceHorizonMs: 0,
         publisherNodeId: null,
+        publisherNodeIds: [],
         subscriberNodeIds: [],
         engineMetrics: null,
         simulationDone: false,
       });
     },
 
+    setTopologyOptions: (options) => {
+      const topologyOptions = { ...get().topologyOptions, ...options };
+      const topo = buildTopology({ ...get(), topologyOptions });
+      set({
+        topologyOptions,
+        importedTopology: null,
+        nodes: topo.nodes,
+        edges: topo.edges,
+        particles: [],
+        running: false,
+        simTime: 0,
+        traceHorizonMs: 0,
+        publisherNodeId: null,
+        publisherNodeIds: [],
+        subscriberNodeIds: [],
+        engineMetrics: null,
+        simulationDone: false,
+      });
+    },
+
+    importTopology: (topology, fileName) => {
+      set((state) => ({
+        importedTopology: fileName,
+        nodeCount: topology.nodes.length,
+        nodes: topology.nodes,
+        edges: withLossModel(topology.edges, globalLossModel(state)),
+        particles: [],
+        running: false,
+        simTime: 0,
+        traceHorizonMs: 0,
+        publisherNodeId: null,
+        publisherNodeIds: [],
+        subscriberNodeIds: [],
+        engineMetrics: null,
+        simulationDone: false,
+        slotResults: [],
+      }));
+    },
+
+    // Paused at the bundle's time; the caller replays the engine to match
+    restoreBundle: (state) => {
+      horizonTrace = null;
+      set({ ...state, running: false, particles: [] });
+    },
+
     setK: (k) => set({ k }),
+    setGossipMeshDegree: (d) => set({ gossipMeshDegree: d }),
+
+    setRlncField: (field) => set({ rlncField: field }),
+
+    setRlncSystematic: (systematic) => set({ rlncSystematic: systematic }),
+
+    setRlncCodingDensity: (density) => set({ rlncCodingDensity: density }),
+
+    setRlncCodingMode: (mode) => set({ rlncCodingMode: mode }),
+
+    setRlncFeedback: (feedback) => set({ rlncFeedback: feedback }),
+
+    setRlncWindowSize: (size) => set({ rlncWindowSize: size }),
+
+    setMessageCount: (count) => set({ messageCount: count }),
+
+    setMessageInterval: (ms) => set({ messageIntervalMs: ms }),
+
+    setPublisherCount: (count) => set({ publisherCount: count }),
     setSpeed: (speed) => set({ speed }),
 
+    // An imported network stays put; the seed then only drives the runs
+    setSeed: (raw) => {
+      // An empty seed can't round-trip through the share link
+      const seed = raw.trim();
+      if (!seed) return;
+      const state = get();
+      const topo = state.importedTopology ? state : buildTopology({ ...state, seed });
+      set({
+        seed,
+        nodes: topo.nodes,
+        edges: topo.edges,
+        particles: [],
+        running: false,
+        simTime: 0,
+        traceHorizonMs: 0,
+        publisherNodeId: null,
+        publisherNodeIds: [],
+        subscriberNodeIds: [],
+        engineMetrics: null,
+        simulationDone: false,
+      });
+    },
+
+    // A new layout is a new seed, so the shared link still reproduces it
     regenerateTopology: () => {
-      const { nodeCount, topology, networkPreset, packetLoss } = get();
-      const topo = buildTopology(nodeCount, topology, networkPreset, packetLoss);
+      const seed = randomSeed();
+      const topo = buildTopology({ ...get(), seed });
       set({
+        seed,
+        importedTopology: null,
         nodes: topo.nodes,
         edges: topo.edges,
         particles: [],
         running: false,
         simTime: 0,
+        traceHorizonMs: 0,
         publisherNodeId: null,
+        publisherNodeIds: [],
         subscriberNodeIds: [],
         engineMetrics: null,
         simulationDone: false,
@@ -210,34 +600,52 @@ export const useDashboardStore = create<DashboardState>((set, get) => {
     },
 
     startPropagation: (publisherId) => {
-      const { nodes } = get();
-      const subscriberIds: string[] = [];
-      for (const node of nodes) {
-        if (node.id !== publisherId) {
-          subscriberIds.push(node.id);
-          node.role = 'relay';
-        } else {
-          node.role = 'publisher';
-        }
-      }
+      horizonTrace = null;
+      const { nodes, seed, publisherCount, messageCount, messageIntervalMs, slotResults } = get();
+      const publisherIds = concurrentPublishers(
+        nodes.map((n) => n.id),
+        publisherId,
+        publisherCount,
+        createRng(`${seed}:publishers:${publisherId}:${slotResults.length}`),
+      );
+      // Subscribers want at least one message published by someone else;
+      // everyone else only relays
+      const messages = messageStream(publisherIds, messageCount, messageIntervalMs);
+      const subscriberIds = nodes
+        .filter((n) => messages.some((m) => m.publisherNodeId !== n.id && subscribesTo(n, m.topic ?? 'beacon_block')))
+        .map((n) => n.id);
+      const roleOf = (id: string): FlexNode['role'] =>
+        publisherIds.includes(id) ? 'publisher' : subscriberIds.includes(id) ? 'subscriber' : 'relay';
 
       set({
+        nodes: nodes.map((n) => (n.role === roleOf(n.id) ? n : { ...n, role: roleOf(n.id) })),
         publisherNodeId: publisherId,
+        publisherNodeIds: publisherIds,
         subscriberNodeIds: subscriberIds,
+        runSlot: slotResults.length,
         running: true,
         simTime: 0,
+        traceHorizonMs: 0,
         particles: [],
         engineMetrics: null,
         simulationDone: false,
       });
     },
 
+    startNextSlot: () => {
+      const { seed, nodes, slotResults, startPropagation } = get();
+      const rng = createRng(`${seed}:proposer:${slotResults.length + 1}`);
+      startPropagation(nodes[Math.floor(rng() * nodes.length)].id);
+    },
+
     resetSimulation: () => {
       set({
         running: false,
         simTime: 0,
+        traceHorizonMs: 0,
         particles: [],
         publisherNodeId: null,
+        publisherNodeIds: [],
         subscriberNodeIds: [],
         engineMetrics: null,
         simulationDone: false,
@@ -246,7 +654,7 @@ export const useDashboardStore = create<DashboardState>((set, get) => {
     },
 
     setRunning: (running) => set({ running }),
-    setSimTime: (t) => set({ simTime: t }),
+    setSimTime: (t) => set((state) => ({ simTime: t, traceHorizonMs: Math.max(state.traceHorizonMs, t) })),
     updateParticles: (particles) => set({ particles }),
     pushEngineMetrics: (m) => set({ engineMetrics: m }),
     setSimulationDone: (done) => set({ simulationDone: done, running: !done }),
@@ -255,5 +663,7 @@ export const useDashboardStore = create<DashboardState>((set, get) => {
       set((state) => ({ slotResults: [...state.slotResults, result] })),
 
     clearSlotResults: () => set({ slotResults: [] }),
+
+    setSweepResult: (result) => set({ sweepResult: result }),
   };
 });